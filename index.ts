@@ -1,4 +1,5 @@
 export { NuxtStack as NuxtStack } from './stack/NuxtStack';
 export type { NuxtProps as NuxtProps } from './stack/NuxtProps';
+export { ServerConstruct, ClientConstruct, PipelineConstruct, WafConstruct, MonitoringConstruct, CertificateConstruct } from './lib';
 // Re-export everything from aws-cdk-lib
 export * as Cdk from 'aws-cdk-lib';
\ No newline at end of file
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+
+// The key prefix of the manifests listing the assets of every deployment
+export const DEPLOYMENT_MANIFEST_PREFIX = '_deployments/';
+
+/**
+ * Lists the keys of the assets in the directory, as they are uploaded to the bucket.
+ *
+ * @param dir - The local assets directory, e.g. .output/public/_nuxt/
+ * @param prefix - The key prefix of the assets in the bucket, e.g. _nuxt/
+ */
+export function listAssetKeys(dir: string, prefix: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    return entry.isDirectory()
+      ? listAssetKeys(entryPath, `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`];
+  });
+}
+
+/**
+ * Creates the code of the custom resource handler that prunes the outdated hashed assets after a deployment.
+ *
+ * Every deployment uploads a manifest with the keys of its assets to `ManifestPrefix`, named after its revision.
+ * The assets listed by the manifests of the last `RetainRevisions` revisions, including the current one,
+ * and of the revisions younger than `RetainDays` days are retained, as well as the assets modified within `RetainDays` days.
+ * The manifests of the pruned revisions are deleted as well.
+ * Inlined into the template, so the code must stay below 4 KB.
+ */
+export function createAssetsCleanupHandlerCode(): string {
+  return `const { S3Client, ListObjectsV2Command, GetObjectCommand, DeleteObjectsCommand } = require('@aws-sdk/client-s3');
+const s3 = new S3Client();
+
+async function listObjects(Bucket, Prefix) {
+  const objects = [];
+  let token;
+  do {
+    const page = await s3.send(new ListObjectsV2Command({ Bucket, Prefix, ContinuationToken: token }));
+    objects.push(...(page.Contents || []));
+    token = page.NextContinuationToken;
+  } while (token);
+  return objects;
+}
+
+async function deleteObjects(Bucket, keys) {
+  for (let i = 0; i < keys.length; i += 1000) {
+    await s3.send(new DeleteObjectsCommand({ Bucket, Delete: { Objects: keys.slice(i, i + 1000).map(Key => ({ Key })), Quiet: true } }));
+  }
+}
+
+exports.handler = async (event) => {
+  if (event.RequestType === 'Delete') return {};
+
+  const { BucketName, Prefix, ManifestPrefix, Revision, RetainRevisions, RetainDays } = event.ResourceProperties;
+  const cutoff = Date.now() - Number(RetainDays) * 24 * 60 * 60 * 1000;
+
+  // The revision is the name of the manifest, e.g. _deployments/2024-01-01T00:00:00.000Z.json
+  const manifests = (await listObjects(BucketName, ManifestPrefix))
+    .map(object => ({ key: object.Key, revision: object.Key.slice(ManifestPrefix.length, -'.json'.length) }))
+    .sort((a, b) => b.revision.localeCompare(a.revision));
+  const retainedRevisions = new Set([Revision, ...manifests.slice(0, Number(RetainRevisions)).map(m => m.revision)]);
+  const retained = manifests.filter(m => retainedRevisions.has(m.revision) || Date.parse(m.revision) >= cutoff);
+  if (!retained.some(m => m.revision === Revision)) {
+    throw new Error('Missing the manifest of the revision ' + Revision);
+  }
+
+  const retainedKeys = new Set();
+  for (const manifest of retained) {
+    const object = await s3.send(new GetObjectCommand({ Bucket: BucketName, Key: manifest.key }));
+    for (const key of JSON.parse(await object.Body.transformToString()).keys) retainedKeys.add(key);
+  }
+
+  const expired = (await listObjects(BucketName, Prefix))
+    .filter(object => !retainedKeys.has(object.Key) && object.LastModified.getTime() < cutoff)
+    .map(object => object.Key);
+  await deleteObjects(BucketName, expired);
+  await deleteObjects(BucketName, manifests.filter(m => !retained.includes(m)).map(m => m.key));
+
+  console.log('Pruned ' + expired.length + ' outdated assets');
+  return { Data: { Pruned: expired.length } };
+};
+`;
+}
@@ -0,0 +1,43 @@
+import { Construct } from 'constructs';
+import { Certificate, CertificateValidation } from 'aws-cdk-lib/aws-certificatemanager';
+import { NuxtProps } from '../stack/NuxtProps';
+import { findHostedZone } from './domains';
+
+export interface CertificateTargetProps {
+  // The domain names of the certificate, the primary domain first.
+  domainNames: string[];
+  // The suffix of the certificate name, e.g. global or regional.
+  nameSuffix: string;
+}
+
+type CertificateProps = NuxtProps & CertificateTargetProps;
+
+export class CertificateConstruct extends Construct {
+  private readonly resourceIdPrefix: string;
+  public certificate: Certificate;
+
+  constructor(scope: Construct, id: string, nuxtProps: NuxtProps, targetProps: CertificateTargetProps) {
+    super(scope, id);
+
+    // Merge props
+    const props: CertificateProps = { ...nuxtProps, ...targetProps };
+
+    const hostedZone = findHostedZone(this, 'HostedZone', props);
+    if (!hostedZone) {
+      throw new Error('The certificate requires hostedZoneId or hostedZoneName to validate the domains.');
+    }
+
+    // Set the resource prefix
+    this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+
+    const [domainName, ...subjectAlternativeNames] = props.domainNames;
+
+    // The validation records are created in the hosted zone, so the certificate is issued while the stack deploys
+    this.certificate = new Certificate(this, 'Certificate', {
+      certificateName: `${this.resourceIdPrefix}-${props.nameSuffix}-certificate`,
+      domainName,
+      subjectAlternativeNames: subjectAlternativeNames.length ? subjectAlternativeNames : undefined,
+      validation: CertificateValidation.fromDns(hostedZone),
+    });
+  }
+}
@@ -1,29 +1,87 @@
-import { Aws, Duration, RemovalPolicy, CfnOutput } from 'aws-cdk-lib';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Aws, Duration, RemovalPolicy, CfnOutput, CustomResource, Stack } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import { PolicyStatement, Effect, ServicePrincipal, AnyPrincipal } from "aws-cdk-lib/aws-iam";
-import { Bucket, BlockPublicAccess, ObjectOwnership, BucketEncryption } from 'aws-cdk-lib/aws-s3';
+import { Bucket, type IBucket, BlockPublicAccess, ObjectOwnership, BucketEncryption } from 'aws-cdk-lib/aws-s3';
 import { BucketDeployment, CacheControl, Source, StorageClass } from "aws-cdk-lib/aws-s3-deployment";
-import { Distribution, CachePolicy, SecurityPolicyProtocol, HttpVersion, ResponseHeadersPolicy, HeadersFrameOption, HeadersReferrerPolicy, type BehaviorOptions, AllowedMethods, ViewerProtocolPolicy, CacheCookieBehavior, CacheHeaderBehavior, CacheQueryStringBehavior, CfnOriginAccessControl, CachedMethods, LambdaEdgeEventType, AccessLevel, experimental, IOrigin } from "aws-cdk-lib/aws-cloudfront";
-import { HttpOrigin, S3BucketOrigin } from 'aws-cdk-lib/aws-cloudfront-origins';
+import { Distribution, type ErrorResponse, CachePolicy, SecurityPolicyProtocol, HttpVersion, ResponseHeadersPolicy, type ResponseHeadersPolicyProps, type ResponseHeadersCorsBehavior, HeadersFrameOption, HeadersReferrerPolicy, type BehaviorOptions, Function as CloudFrontFunction, FunctionCode, FunctionRuntime, FunctionEventType, KeyValueStore, ImportSource, AllowedMethods, ViewerProtocolPolicy, CacheCookieBehavior, CacheHeaderBehavior, CacheQueryStringBehavior, CfnOriginAccessControl, CachedMethods, AccessLevel, IOrigin, type CfnDistribution, OriginRequestPolicy, OriginRequestHeaderBehavior, OriginRequestCookieBehavior, OriginRequestQueryStringBehavior } from "aws-cdk-lib/aws-cloudfront";
+import { HttpOrigin, S3BucketOrigin, OriginGroup } from 'aws-cdk-lib/aws-cloudfront-origins';
 import { RetentionDays, LogGroup } from 'aws-cdk-lib/aws-logs';
-import { Certificate } from 'aws-cdk-lib/aws-certificatemanager';
-import { AaaaRecord, ARecord, HostedZone, type IHostedZone, RecordTarget } from "aws-cdk-lib/aws-route53";
+import { Function as LambdaFunction, Runtime, Architecture, Code } from 'aws-cdk-lib/aws-lambda';
+import { Provider } from 'aws-cdk-lib/custom-resources';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Certificate, type ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { AaaaRecord, ARecord, type IHostedZone, RecordTarget } from "aws-cdk-lib/aws-route53";
 import { CloudFrontTarget } from "aws-cdk-lib/aws-route53-targets";
-import { NuxtProps } from '../stack/NuxtProps';
+import { NuxtProps, type CachedRouteProps, type CacheKeyProps, type ForwardProps, type RouteRuleBehaviorProps } from '../stack/NuxtProps';
+import { createAssetsCleanupHandlerCode, listAssetKeys, DEPLOYMENT_MANIFEST_PREFIX } from './assets-cleanup';
+import { listPrerenderedPages, canInlinePages, createPrerenderFunctionCode } from './prerender';
+import { createProtectionStep, createCredentialsHashHandlerCode } from './protection';
+import { getRedirectTable, canInlineRedirects, toRedirectEntries, createEdgeRulesStep } from './edge-rules';
+import { composeViewerRequestCode, type ViewerRequestStep } from './viewer-request';
+import { getDomainNames, findHostedZone } from './domains';
+import { readNitroBuildInfo, checkNitroBuildInfo, readRouteManifest, isRootRoute, toPathPatterns, toRouteRegExp, matchesPathPattern, sortBySpecificity, createRouteRedirectsStep, type NitroRouteRule, type NitroRouteManifest } from './route-rules';
 
 export interface ServerProps {
-  httpOrigin: HttpOrigin;
+  httpOrigin: IOrigin;
+  // The origin of the server in the secondary region, if any.
+  failoverOrigin?: IOrigin;
+  // The origin of the server in the primary region to use in the origin group.
+  groupOrigin?: IOrigin;
+  // The name of the replica of the assets bucket in the secondary region, if any.
+  replicaBucketName?: string;
+  // The ARN of the WAF web ACL to associate with the distribution, if any.
+  webAclArn?: string;
+  // The certificate of the distribution issued in us-east-1, if any. Takes precedence over the globalCertificateArn.
+  certificate?: ICertificate;
 }
 
 type ClientProps = NuxtProps & ServerProps;
 
+// The CloudFront geolocation headers forwarded by the geo preset, within the limit of 10 headers per origin request policy
+const GEO_HEADERS = [
+  'CloudFront-Viewer-Country',
+  'CloudFront-Viewer-Country-Region',
+  'CloudFront-Viewer-City',
+  'CloudFront-Viewer-Postal-Code',
+  'CloudFront-Viewer-Time-Zone',
+  'CloudFront-Viewer-Latitude',
+  'CloudFront-Viewer-Longitude',
+];
+
+// The maximum number of headers of an origin request policy
+const MAX_FORWARDED_HEADERS = 10;
+
 export class ClientConstruct extends Construct {
   private readonly resourceIdPrefix: string;
+  // Whether the server origins are reached at the mapped domain of the HTTP API, which requires the Host header
+  private readonly forwardHost: boolean;
+  private hostOriginRequestPolicy: OriginRequestPolicy|undefined;
   public staticAssetsBucket: Bucket;
   private accessLogsBucket: Bucket|undefined;
   public cdn: Distribution;
+  // The cache policy of the server-rendered routes
+  public serverCachePolicy: CachePolicy;
+  // The cache policy of the server-rendered routes with prerendered pages, if any
+  public pagesCachePolicy: CachePolicy|undefined;
+  // The cache policies of the cached routes and the route rules, by path pattern
+  public routeCachePolicies: Record<string, CachePolicy> = {};
+  // The origin request policy of the uncached server routes
+  public serverOriginRequestPolicy: OriginRequestPolicy;
+  // The origin of the cached server routes, with failover if configured
+  private serverOrigin: IOrigin;
   private s3Origin: IOrigin;
+  private replicaBucket: IBucket|undefined;
+  public s3OriginId: string;
   public originAccessControl: CfnOriginAccessControl|undefined;
+  private readonly revision: string = new Date().toISOString();
+  private credentialsHash: string|undefined;
+  private certificate: ICertificate|undefined;
+  private edgeRulesStep: ViewerRequestStep|undefined;
+  private protectionStep: ViewerRequestStep|undefined;
+  private routeRedirectsStep: ViewerRequestStep|undefined;
+  private keyValueStore: KeyValueStore|undefined;
 
   constructor(scope: Construct, id: string, nuxtProps: NuxtProps, serverProps: ServerProps) {
     super(scope, id);
@@ -33,12 +91,32 @@ export class ClientConstruct extends Construct {
 
     // Set the resource prefix
     this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+    this.forwardHost = !!props.serverProps?.originVerify?.disableExecuteApiEndpoint;
+
+    // Import the replica of the assets bucket in the secondary region
+    this.replicaBucket = props.replicaBucketName
+      ? Bucket.fromBucketAttributes(this, 'ReplicaBucket', {
+          bucketName: props.replicaBucketName,
+          region: props.failover?.region,
+        })
+      : undefined;
 
     // Create the static asset bucket
     this.staticAssetsBucket = this.createStaticAssetsBucket(props);
 
+    // Hash the basic auth credentials for the CloudFront Functions
+    if (props.protection?.basicAuthSecretArn) {
+      this.credentialsHash = this.createCredentialsHash(props);
+    }
+
+    // Import the certificate of the custom domains
+    this.certificate = props.certificate ?? (props.globalCertificateArn
+      ? Certificate.fromCertificateArn(this, `${this.resourceIdPrefix}-global-certificate`, props.globalCertificateArn)
+      : undefined);
+
     // Create the CDN
     this.cdn = this.createCloudFrontDistribution(props);
+    this.patchOriginAccessControl();
 
     // Grant CloudFront permission to get the objects from the s3 bucket origin
     this.staticAssetsBucket.addToResourcePolicy(
@@ -56,10 +134,15 @@ export class ClientConstruct extends Construct {
     );
 
     // Bucket deployment
-    this.setupDeployments(props);
+    const deployment = this.setupDeployments(props);
+
+    // Prune the outdated assets after the deployment
+    if (props.buildProps?.retention) {
+      this.createAssetsCleanup(props, deployment);
+    }
 
     // Set the domains with Route53
-    if(props.domain && props.globalCertificateArn && props.hostedZoneId) {
+    if(props.domain && this.certificate) {
       this.createDnsRecords(props);
     }
 
@@ -69,6 +152,21 @@ export class ClientConstruct extends Construct {
       description: 'The URL of the CloudFront distribution',
       exportName: `${this.resourceIdPrefix}-cdn`,
     });
+    new CfnOutput(this, 'DistributionId', {
+      value: this.cdn.distributionId,
+      description: 'The ID of the CloudFront distribution',
+      exportName: `${this.resourceIdPrefix}-distribution-id`,
+    });
+    new CfnOutput(this, 'StaticAssetsBucketName', {
+      value: this.staticAssetsBucket.bucketName,
+      description: 'The name of the S3 bucket of the static assets',
+      exportName: `${this.resourceIdPrefix}-assets-bucket`,
+    });
+    new CfnOutput(this, 'ServerCachePolicyId', {
+      value: this.serverCachePolicy.cachePolicyId,
+      description: 'The ID of the cache policy of the server-rendered routes',
+      exportName: `${this.resourceIdPrefix}-server-cache-policy`,
+    });
   }
 
   /**
@@ -86,7 +184,7 @@ export class ClientConstruct extends Construct {
       objectOwnership: ObjectOwnership.OBJECT_WRITER,
       enforceSSL: true,
       removalPolicy: RemovalPolicy.DESTROY,
-      autoDeleteObjects: false
+      autoDeleteObjects: !!props.preview
     })
     : undefined;
 
@@ -99,9 +197,23 @@ export class ClientConstruct extends Construct {
       versioned: true,
       enforceSSL: true,
       removalPolicy: RemovalPolicy.DESTROY,
-      autoDeleteObjects: false
+      autoDeleteObjects: !!props.preview,
+      // Replicate the assets to the secondary region
+      ...(this.replicaBucket && {
+        replicationRules: [{ destination: this.replicaBucket }],
+      }),
     });
 
+    // Expire the noncurrent versions of pruned and overwritten assets
+    if (props.buildProps?.retention) {
+      bucket.addLifecycleRule({
+        id: 'ExpireNoncurrentVersions',
+        noncurrentVersionExpiration: Duration.days(props.buildProps.retention.days ?? 30),
+        noncurrentVersionsToRetain: props.buildProps.retention.revisions ?? 3,
+        expiredObjectDeleteMarker: true,
+      });
+    }
+
     // Create the Origin Access Control
     this.originAccessControl = new CfnOriginAccessControl(this, 'OAC', {
       originAccessControlConfig: {
@@ -113,19 +225,21 @@ export class ClientConstruct extends Construct {
       },
     });
     
+    this.s3OriginId = `${this.resourceIdPrefix}-s3origin`;
     this.s3Origin = S3BucketOrigin.withOriginAccessControl(bucket, {
-      originId: `${this.resourceIdPrefix}-s3origin`,
-      originAccessLevels: [ AccessLevel.READ ],
+      originId: this.s3OriginId,
+      originAccessLevels: [ AccessLevel.READ, AccessLevel.LIST ],
       originAccessControlId: this.originAccessControl?.attrId,
     });
 
     // Update the bucket policy to allow access from CloudFront via OAC
+    // Listing the bucket makes S3 respond with 404 instead of 403 for missing objects
     bucket.addToResourcePolicy(
       new PolicyStatement({
         effect: Effect.ALLOW,
-        actions: ['s3:GetObject'],
+        actions: ['s3:GetObject', 's3:ListBucket'],
         principals: [new AnyPrincipal()],
-        resources: [`${bucket.bucketArn}/*`],
+        resources: [bucket.bucketArn, `${bucket.bucketArn}/*`],
         conditions: {
           StringEquals: {
             'AWS:SourceArn': `arn:aws:cloudfront::${Aws.ACCOUNT_ID}:origin-access-control/${this.originAccessControl?.attrId}`,
@@ -135,6 +249,16 @@ export class ClientConstruct extends Construct {
       })
     );
 
+    // The deployment manifests list the assets of every deployment, so CloudFront must not serve them, e.g. by the *.* behavior
+    bucket.addToResourcePolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        actions: ['s3:GetObject'],
+        principals: [new ServicePrincipal('cloudfront.amazonaws.com')],
+        resources: [`${bucket.bucketArn}/${DEPLOYMENT_MANIFEST_PREFIX}*`],
+      })
+    );
+
     return bucket;
   }
 
@@ -158,7 +282,7 @@ export class ClientConstruct extends Construct {
       objectOwnership: ObjectOwnership.OBJECT_WRITER,
       enforceSSL: true,
       removalPolicy: RemovalPolicy.DESTROY,
-      autoDeleteObjects: false
+      autoDeleteObjects: !!props.preview
     })
     : undefined;
 
@@ -166,7 +290,293 @@ export class ClientConstruct extends Construct {
      * Response Headers Policy
      * This policy is used to set default security headers for the CloudFront distribution.
      */
-    const responseHeadersPolicy = new ResponseHeadersPolicy(this, "ResponseHeadersPolicy", props.responseHeadersPolicy || {
+    const responseHeadersPolicy = new ResponseHeadersPolicy(this, "ResponseHeadersPolicy", this.getResponseHeadersPolicyProps(props));
+
+    /**
+     * The default cache policy for SSR
+     * This policy is used for the default and API behaviours of the CloudFront distribution.
+     */
+    this.serverCachePolicy = new CachePolicy(this, "ServerCachePolicy", {
+      cachePolicyName: `${this.resourceIdPrefix}-cache-policy`,
+      comment: 'Cache policy for SSR',
+      defaultTtl: Duration.seconds(0),
+      minTtl: Duration.seconds(0),
+      maxTtl: Duration.seconds(1),
+      ...this.getCacheKeyBehaviors(props),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+
+    /**
+     * The origin request policy for SSR
+     * Only forwards the values of the cache key by default, as the prerendered pages share the behavior and its cache.
+     * The forward props add values to the uncached server routes without adding them to the cache key. The request body is always forwarded.
+     */
+    this.serverOriginRequestPolicy = this.createOriginRequestPolicy("ServerOriginRequestPolicy", 'origin-request-policy', 'Origin request policy for SSR', props.forward ?? {});
+
+    /**
+     * Origin failover
+     * CloudFront only fails over GET, HEAD and OPTIONS requests, so the origin groups are used by the read-only behaviors.
+     */
+    this.serverOrigin = props.failoverOrigin
+      ? new OriginGroup({
+          primaryOrigin: props.groupOrigin ?? props.httpOrigin,
+          fallbackOrigin: props.failoverOrigin,
+          fallbackStatusCodes: [500, 502, 503, 504],
+        })
+      : props.httpOrigin;
+
+    const s3Origin = this.replicaBucket
+      ? new OriginGroup({
+          primaryOrigin: this.s3Origin,
+          fallbackOrigin: S3BucketOrigin.withOriginAccessControl(this.replicaBucket, {
+            originId: `${this.s3OriginId}-replica`,
+            originAccessLevels: [ AccessLevel.READ, AccessLevel.LIST ],
+          }),
+          fallbackStatusCodes: [500, 502, 503, 504],
+        })
+      : this.s3Origin;
+
+    /**
+     * Viewer request steps
+     * The access protection, the edge rules and the redirects of the route rules run before the handler of every viewer request function.
+     * The protection runs first, so the redirects do not reveal the routes to unauthenticated clients.
+     * Large redirect and page tables are stored in a single KeyValueStore, as a function accepts only one.
+     */
+    const routeManifest = props.routeRules ? this.readRouteManifest(props) : undefined;
+    const pages = {
+      ...(props.prerender ? this.getPrerenderedPages(props) : {}),
+      ...(routeManifest ? this.getRouteManifestPages(routeManifest) : {}),
+    };
+    const redirectTable = props.edgeRules ? getRedirectTable(props.edgeRules) : {};
+    const inlineRedirects = canInlineRedirects(redirectTable);
+
+    this.edgeRulesStep = props.edgeRules
+      ? createEdgeRulesStep(props.edgeRules, getDomainNames(props), inlineRedirects ? redirectTable : undefined)
+      : undefined;
+    this.routeRedirectsStep = routeManifest && Object.values(routeManifest.routeRules).some(rule => rule.redirect)
+      ? createRouteRedirectsStep(routeManifest.routeRules)
+      : undefined;
+    this.protectionStep = props.protection
+      ? createProtectionStep({ ...props.protection, credentialsHash: this.credentialsHash })
+      : undefined;
+
+    const reservedSize = [this.edgeRulesStep, this.routeRedirectsStep, this.protectionStep].reduce((size, step) => size + (step ? Buffer.byteLength(step.code) : 0), 0);
+    const inlinePages = canInlinePages(pages, reservedSize);
+    const keyValueEntries = [
+      ...(inlinePages ? [] : Object.entries(pages).map(([key, value]) => ({ key, value }))),
+      ...(inlineRedirects ? [] : toRedirectEntries(redirectTable)),
+    ];
+    this.keyValueStore = keyValueEntries.length
+      ? new KeyValueStore(this, 'EdgeKeyValueStore', {
+          // CloudFront imports the entries only when the store is created, so a changed table replaces the store on the deployment
+          keyValueStoreName: `${this.resourceIdPrefix}-${createHash('sha256').update(JSON.stringify(keyValueEntries)).digest('hex').substring(0, 8)}`,
+          comment: `Redirects and prerendered pages of ${this.resourceIdPrefix}`,
+          source: ImportSource.fromInline(JSON.stringify({ data: keyValueEntries })),
+        })
+      : undefined;
+
+    /**
+     * Hybrid mode
+     * Routes the requests of prerendered pages to the S3 bucket, everything else falls back to the SSR origin.
+     * The function switches the origin of the server behaviors, so their origin request policies must not forward the Host header,
+     * which S3 rejects if it is not the bucket endpoint.
+     */
+    if (Object.keys(pages).length && this.forwardHost) {
+      throw new Error('serverProps.originVerify.disableExecuteApiEndpoint can not be combined with prerendered pages, as the forwarded Host header is rejected by the S3 bucket of the pages.');
+    }
+    const prerenderFunction = Object.keys(pages).length
+      ? this.createViewerRequestFunction(props, 'PrerenderFunction',
+          `Routes the prerendered pages of ${this.resourceIdPrefix} to the S3 bucket`,
+          createPrerenderFunctionCode(this.s3OriginId, inlinePages ? pages : undefined))
+      : undefined;
+
+    /**
+     * Edge rules and access protection
+     * The pages without a prerender function and the static files get the function that only applies the edge rules
+     * and the redirects of the route rules and checks the restriction, so legacy URLs with an extension are redirected as well.
+     * The server paths and the build assets only check the restriction.
+     */
+    const edgeRulesFunction = this.edgeRulesStep || this.routeRedirectsStep
+      ? this.createViewerRequestFunction(props, 'EdgeRulesFunction', `Redirects and rewrites the pages of ${this.resourceIdPrefix}`)
+      : undefined;
+    const pageFunction = prerenderFunction ?? edgeRulesFunction;
+    const protectionFunction = props.protection
+      ? this.createViewerRequestFunction(props, 'ProtectionFunction', `Restricts the access to ${this.resourceIdPrefix}`, undefined, false)
+      : undefined;
+
+    /**
+     * The cache policy of the prerendered pages
+     * The prerendered pages are served by the default behavior, so its cache policy keeps them at the edge
+     * until the next deployment invalidates the cache, as set by their Cache-Control header.
+     * The server-rendered routes without Cache-Control header are not cached, like with the default cache policy.
+     */
+    this.pagesCachePolicy = prerenderFunction
+      ? new CachePolicy(this, "PagesCachePolicy", {
+          cachePolicyName: `${this.resourceIdPrefix}-pages-cache-policy`,
+          comment: 'Cache policy for SSR with prerendered pages',
+          defaultTtl: Duration.seconds(0),
+          minTtl: Duration.seconds(0),
+          maxTtl: Duration.days(365),
+          ...this.getCacheKeyBehaviors(props),
+          enableAcceptEncodingGzip: true,
+          enableAcceptEncodingBrotli: true,
+        })
+      : undefined;
+
+    const protectionAssociations = protectionFunction
+      ? { functionAssociations: [{ function: protectionFunction, eventType: FunctionEventType.VIEWER_REQUEST }] }
+      : {};
+
+    /**
+     * ROUTE BEHAVIORS
+     * 
+     * Creates a behavior for the CloudFront distribution to route incoming web requests
+     * to the Nuxt render Lambda function (via API gateway).
+     * Additionally, this automatically redirects HTTP requests to HTTPS.
+     */
+    const allowAllMethods = props.serverProps?.allowedMethods === 'all';
+    let defaultRouteBehavior: BehaviorOptions = {
+      // Origin groups only accept the read-only methods
+      origin: allowAllMethods ? props.httpOrigin : this.serverOrigin,
+      compress: true,
+      allowedMethods: allowAllMethods ? AllowedMethods.ALLOW_ALL : AllowedMethods.ALLOW_GET_HEAD,
+      cachePolicy: this.pagesCachePolicy ?? this.serverCachePolicy,
+      originRequestPolicy: this.serverOriginRequestPolicy,
+      viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+      responseHeadersPolicy: responseHeadersPolicy,
+      ...(pageFunction
+        ? { functionAssociations: [{ function: pageFunction, eventType: FunctionEventType.VIEWER_REQUEST }] }
+        : protectionAssociations),
+    };
+
+    const additionalBehaviors: Record<string, BehaviorOptions> = {};
+
+    const apiRouteBehavior: BehaviorOptions = {
+      origin: props.httpOrigin,
+      compress: true,
+      allowedMethods: AllowedMethods.ALLOW_ALL,
+      cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
+      cachePolicy: this.serverCachePolicy,
+      originRequestPolicy: this.serverOriginRequestPolicy,
+      viewerProtocolPolicy: ViewerProtocolPolicy.HTTPS_ONLY,
+      ...protectionAssociations,
+    };
+
+    const buildAssetsBehavior: BehaviorOptions = {
+      origin: s3Origin,
+      compress: true,
+      allowedMethods: AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+      cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
+      cachePolicy: CachePolicy.CACHING_OPTIMIZED,
+      viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+      ...protectionAssociations,
+    };
+
+    const staticAssetsBehavior: BehaviorOptions = edgeRulesFunction
+      ? { ...buildAssetsBehavior, functionAssociations: [{ function: edgeRulesFunction, eventType: FunctionEventType.VIEWER_REQUEST }] }
+      : buildAssetsBehavior;
+
+    // the route rules of all routes, e.g. /**, apply to the default behavior
+    const routeRuleBehaviors = routeManifest ? this.createRouteRuleBehaviors(props, routeManifest, defaultRouteBehavior) : undefined;
+    defaultRouteBehavior = routeRuleBehaviors?.defaultBehavior ?? defaultRouteBehavior;
+
+    // attach a cached behavior with its own cache policy to every cached route
+    Object.assign(additionalBehaviors, this.createCachedRouteBehaviors(props, defaultRouteBehavior));
+    // loop through the server paths and attach api behavior - default to /api/*
+    for (const pattern of props.serverProps?.paths || ['/api/*']) {
+      additionalBehaviors[pattern] ??= apiRouteBehavior;
+    }
+    // take all the static assets and attach the static assets behavior, the build assets without the edge rules and before the route rules
+    if (routeRuleBehaviors || edgeRulesFunction) {
+      additionalBehaviors['/_nuxt/*'] ??= buildAssetsBehavior;
+    }
+    additionalBehaviors['*.*'] = staticAssetsBehavior;
+    // attach the behaviors derived from the route rules of the build output last, most specific first,
+    // so they never catch the static assets or the server paths, and skip the behaviors these would shadow
+    const precedingPatterns = Object.keys(additionalBehaviors);
+    for (const [pattern, behavior] of Object.entries(routeRuleBehaviors?.behaviors || {})) {
+      if (!precedingPatterns.some(precedingPattern => matchesPathPattern(precedingPattern, pattern))) {
+        additionalBehaviors[pattern] ??= behavior;
+      }
+    }
+
+    // the error pages are served from the S3 bucket through the static assets behavior
+    const errorResponses = this.createErrorResponses(props);
+
+
+    /**
+     * Create the CDN
+     */
+    return new Distribution(this, 'CDN', {
+      comment: "Stack: " + Aws.STACK_NAME,
+      enableLogging: props.debug ? true : false,
+      minimumProtocolVersion: SecurityPolicyProtocol.TLS_V1_2_2021,
+      httpVersion: HttpVersion.HTTP3,
+      defaultBehavior: defaultRouteBehavior,
+      additionalBehaviors: additionalBehaviors,
+      logBucket: this.accessLogsBucket,
+      logIncludesCookies: true,
+      errorResponses: errorResponses.length ? errorResponses : undefined,
+      webAclId: props.webAclArn,
+      // defaultRootObject: "index.html", // causes SSR path / to 404
+      ...(props.domain && this.certificate
+        ? {
+            domainNames: getDomainNames(props),
+            certificate: this.certificate,
+          }
+        : {}),
+    });
+  }
+
+  /**
+   * Origin Access Control (OAC) patch
+   * Adapted from: https://github.com/awslabs/cloudfront-hosting-toolkit
+   *
+   * Patch is needed because no native support from AWS.
+   * https://github.com/aws/aws-cdk/issues/21771
+   *
+   * @private
+   */
+  private patchOriginAccessControl(): void {
+    const cfnDistribution = this.cdn.node.defaultChild as CfnDistribution;
+
+    // The position of the S3 origin depends on the server origin and the behaviors
+    const origins: Array<{ id: string }> = Stack.of(this).resolve(cfnDistribution.distributionConfig).origins;
+    const s3OriginIndex = origins.findIndex(origin => origin.id === this.s3OriginId);
+    if (s3OriginIndex === -1) {
+      throw new Error(`Could not find the S3 origin ${this.s3OriginId} in the origins of the distribution.`);
+    }
+
+    cfnDistribution.addOverride(
+      `Properties.DistributionConfig.Origins.${s3OriginIndex}.S3OriginConfig.OriginAccessIdentity`,
+      ""
+    );
+    cfnDistribution.addPropertyOverride(
+      `DistributionConfig.Origins.${s3OriginIndex}.OriginAccessControlId`,
+      this.originAccessControl?.getAtt("Id")
+    );
+
+    const s3OriginNode = this.cdn.node
+      .findAll()
+      .filter((child) => child.node.id === "S3Origin");
+
+    if (s3OriginNode && s3OriginNode.length > 0) {
+      const resourceNode = s3OriginNode[0].node.findChild("Resource");
+      if (resourceNode) {
+        resourceNode.node.tryRemoveChild("Resource")
+      }
+    };
+  }
+
+  /**
+   * Resolves the props of the default response headers policy with the security headers.
+   *
+   * @param props
+   * @private
+   */
+  private getResponseHeadersPolicyProps(props: ClientProps): ResponseHeadersPolicyProps {
+    const policyProps: ResponseHeadersPolicyProps = props.responseHeadersPolicy || {
       // responseHeadersPolicyName: `${this.resourceIdPrefix}-response-headers-policy`,
       comment: "ResponseHeadersPolicy" + Aws.STACK_NAME + "-" + Aws.REGION,
       securityHeadersBehavior: {
@@ -216,100 +626,536 @@ export class ClientConstruct extends Construct {
         : [],
       },
       removeHeaders: ['server', 'age' , 'date'],
-    });
+    };
 
-    /**
-     * The default cache policy for SSR
-     * This policy is used for the default and API behaviours of the CloudFront distribution.
-     */
-    const serverCachePolicy = new CachePolicy(this, "ServerCachePolicy", {
-      cachePolicyName: `${this.resourceIdPrefix}-cache-policy`,
-      comment: 'Cache policy for SSR',
-      defaultTtl: Duration.seconds(0),
-      minTtl: Duration.seconds(0),
-      maxTtl: Duration.seconds(1),
-      headerBehavior: props.allowHeaders?.length
-        ? CacheHeaderBehavior.allowList(...props.allowHeaders)
+    // Keep the non-production environments out of search engines
+    if (props.noindex ?? props.environment !== 'production') {
+      const customHeaders = (policyProps.customHeadersBehavior?.customHeaders || [])
+        .filter(header => header.header.toLowerCase() !== 'x-robots-tag');
+      return {
+        ...policyProps,
+        customHeadersBehavior: {
+          customHeaders: [...customHeaders, { header: 'X-Robots-Tag', value: 'noindex, nofollow', override: true }],
+        },
+      };
+    }
+
+    return policyProps;
+  }
+
+  /**
+   * Resolves the headers, cookies and query parameters of the cache key from the props.
+   *
+   * @param props
+   * @param cacheKey - The cache key of a route, overriding the settings of the props.
+   * @private
+   */
+  private getCacheKeyBehaviors(props: ClientProps, cacheKey?: CacheKeyProps) {
+    const { headers, cookies, queryParams, denyQueryParams } = cacheKey ?? {
+      headers: props.allowHeaders,
+      cookies: props.allowCookies,
+      queryParams: props.allowQueryParams,
+      denyQueryParams: props.denyQueryParams,
+    };
+
+    return {
+      headerBehavior: headers?.length
+        ? CacheHeaderBehavior.allowList(...headers)
         : CacheHeaderBehavior.none(),
-      cookieBehavior: props.allowCookies?.length
-        ? CacheCookieBehavior.allowList(...props.allowCookies)
+      cookieBehavior: cookies?.length
+        ? CacheCookieBehavior.allowList(...cookies)
         : CacheCookieBehavior.none(),
-      queryStringBehavior: props.allowQueryParams?.length 
-        ? CacheQueryStringBehavior.allowList(...props.allowQueryParams) 
-        : (props.denyQueryParams?.length 
-          ? CacheQueryStringBehavior.denyList(...props.denyQueryParams) 
+      queryStringBehavior: queryParams?.length 
+        ? CacheQueryStringBehavior.allowList(...queryParams) 
+        : (denyQueryParams?.length 
+          ? CacheQueryStringBehavior.denyList(...denyQueryParams) 
           : CacheQueryStringBehavior.none()),
+    };
+  }
+
+  /**
+   * Creates an origin request policy forwarding the headers, cookies and query parameters to the origin.
+   * CloudFront forwards the values of the cache key in addition.
+   *
+   * @private
+   */
+  private createOriginRequestPolicy(id: string, nameSuffix: string, comment: string, forward: ForwardProps): OriginRequestPolicy {
+    const headers = forward.headers || [];
+
+    let headerBehavior: OriginRequestHeaderBehavior;
+    if (forward.headerPreset === 'allViewerExceptHost') {
+      if (headers.length) {
+        throw new Error(`Invalid forward settings of the ${comment}: the header preset allViewerExceptHost can not be combined with headers.`);
+      }
+      // The execute-api endpoint and Function URLs reject requests with the Host header of the distribution
+      headerBehavior = this.forwardHost ? OriginRequestHeaderBehavior.all() : OriginRequestHeaderBehavior.denyList('Host');
+    } else {
+      // CloudFront matches the header names case-insensitively
+      const allowList = [...(this.forwardHost ? ['Host'] : []), ...(forward.headerPreset === 'geo' ? GEO_HEADERS : []), ...headers]
+        .filter((header, index, list) => list.findIndex(other => other.toLowerCase() === header.toLowerCase()) === index);
+      if (allowList.length > MAX_FORWARDED_HEADERS) {
+        throw new Error(`Invalid forward settings of the ${comment}: an origin request policy forwards at most ${MAX_FORWARDED_HEADERS} headers, including the Host header and the headers of the geo preset, but got ${allowList.join(', ')}.`);
+      }
+      headerBehavior = allowList.length ? OriginRequestHeaderBehavior.allowList(...allowList) : OriginRequestHeaderBehavior.none();
+    }
+
+    return new OriginRequestPolicy(this, id, {
+      originRequestPolicyName: `${this.resourceIdPrefix}-${nameSuffix}`,
+      comment,
+      headerBehavior,
+      cookieBehavior: forward.cookies === 'all'
+        ? OriginRequestCookieBehavior.all()
+        : (forward.cookies?.length ? OriginRequestCookieBehavior.allowList(...forward.cookies) : OriginRequestCookieBehavior.none()),
+      queryStringBehavior: forward.queryParams === 'all'
+        ? OriginRequestQueryStringBehavior.all()
+        : (forward.queryParams?.length ? OriginRequestQueryStringBehavior.allowList(...forward.queryParams) : OriginRequestQueryStringBehavior.none()),
+    });
+  }
+
+  /**
+   * Returns the origin request policy of the cached routes that only forwards the Host header, if required by the server origins.
+   * The policy is shared by the routes to stay within the quota of origin request policies.
+   *
+   * @private
+   */
+  private getHostOriginRequestPolicy(): OriginRequestPolicy | undefined {
+    if (this.forwardHost && !this.hostOriginRequestPolicy) {
+      this.hostOriginRequestPolicy = this.createOriginRequestPolicy('HostOriginRequestPolicy', 'host-origin-request-policy', 'Origin request policy for the cached routes', {});
+    }
+    return this.hostOriginRequestPolicy;
+  }
+
+  /**
+   * Creates a behavior with its own cache policy for every cached route.
+   * The TTLs of the cache policy bound the `s-maxage` and `stale-while-revalidate` directives sent by the origin.
+   *
+   * @param props
+   * @param serverBehavior - The behavior of the server-rendered routes to extend.
+   * @private
+   */
+  private createCachedRouteBehaviors(props: ClientProps, serverBehavior: BehaviorOptions): Record<string, BehaviorOptions> {
+    const behaviors: Record<string, BehaviorOptions> = {};
+
+    (props.cachedRoutes || []).forEach((route, index) => {
+      const allowAllMethods = route.allowedMethods === 'all';
+      behaviors[route.path] = {
+        ...serverBehavior,
+        // Origin groups only accept the read-only methods
+        origin: allowAllMethods ? props.httpOrigin : this.serverOrigin,
+        allowedMethods: allowAllMethods ? AllowedMethods.ALLOW_ALL : AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+        cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
+        cachePolicy: this.createRouteCachePolicy(props, `CachedRouteCachePolicy${index}`, `cache-policy-${index}`, route),
+        // Only the values of the cache key, and the Host header if required, are forwarded by default, so the cached responses do not depend on other values
+        originRequestPolicy: route.forward
+          ? this.createOriginRequestPolicy(`CachedRouteOriginRequestPolicy${index}`, `origin-request-policy-${index}`, `Origin request policy for ${route.path}`, route.forward)
+          : this.getHostOriginRequestPolicy(),
+      };
+    });
+
+    return behaviors;
+  }
+
+  /**
+   * Creates the cache policy of a cached route.
+   *
+   * @param patterns - The path patterns of the behaviors using the cache policy.
+   * @private
+   */
+  private createRouteCachePolicy(props: ClientProps, id: string, nameSuffix: string, route: CachedRouteProps, patterns = [route.path]): CachePolicy {
+    const staleWhileRevalidate = route.staleWhileRevalidate ?? 0;
+    const maxTtl = route.maxTtl ?? route.ttl + staleWhileRevalidate;
+
+    if (route.ttl < 0 || staleWhileRevalidate < 0 || maxTtl < route.ttl) {
+      throw new Error(`Invalid cache TTLs for the route ${route.path}.`);
+    }
+
+    const cachePolicy = new CachePolicy(this, id, {
+      cachePolicyName: `${this.resourceIdPrefix}-${nameSuffix}`,
+      comment: `Cache policy for ${route.path}`,
+      defaultTtl: Duration.seconds(route.ttl),
+      minTtl: Duration.seconds(0),
+      maxTtl: Duration.seconds(maxTtl),
+      ...this.getCacheKeyBehaviors(props, route.cacheKey),
       enableAcceptEncodingGzip: true,
       enableAcceptEncodingBrotli: true,
     });
+    for (const pattern of patterns) {
+      this.routeCachePolicies[pattern] = cachePolicy;
+    }
 
-    /**
-     * ROUTE BEHAVIORS
-     * 
-     * Creates a behavior for the CloudFront distribution to route incoming web requests
-     * to the Nuxt render Lambda function (via API gateway).
-     * Additionally, this automatically redirects HTTP requests to HTTPS.
-     */
-    const defaultRouteBehavior: BehaviorOptions = {
-      origin: props.httpOrigin,
-      // origin: originGroup,
-      compress: true,
-      allowedMethods: AllowedMethods.ALLOW_GET_HEAD,
-      cachePolicy: serverCachePolicy,
-      viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-      responseHeadersPolicy: responseHeadersPolicy,
-    };
+    return cachePolicy;
+  }
 
-    const additionalBehaviors: Record<string, BehaviorOptions> = {};
+  /**
+   * ROUTE RULES
+   *
+   * Creates the behaviors derived from the Nuxt `routeRules` of the route manifest of the build output:
+   * - `swr`/`isr` routes are cached at the edge
+   * - `headers`/`cors` routes get their own response headers policy
+   * - `cache: false` routes under a cached route are not cached
+   * The rules of all routes, e.g. `/**`, apply to the default behavior instead of a behavior of their own.
+   * Like Nitro, a behavior applies the rules of all routes matching its route, the most specific last.
+   * The `redirect` and `prerender` rules are applied by the viewer request function of the pages.
+   *
+   * @param props
+   * @param routeManifest - The route manifest of the build output.
+   * @param serverBehavior - The default behavior of the server-rendered routes to extend.
+   * @private
+   */
+  private createRouteRuleBehaviors(props: ClientProps, routeManifest: NitroRouteManifest, serverBehavior: BehaviorOptions): { defaultBehavior: BehaviorOptions; behaviors: Record<string, BehaviorOptions> } {
+    const routeRules = routeManifest.routeRules;
+    const behaviorProps = (typeof props.routeRules === 'object' && props.routeRules.behaviors) || {};
 
-    const apiRouteBehavior: BehaviorOptions = {
-      origin: props.httpOrigin,
-      compress: true,
-      allowedMethods: AllowedMethods.ALLOW_ALL,
-      cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
-      cachePolicy: serverCachePolicy,
-      viewerProtocolPolicy: ViewerProtocolPolicy.HTTPS_ONLY
-    };
+    // The rules of the Nuxt build assets are handled by the static assets behavior
+    const routes = sortBySpecificity(Object.keys(routeRules).filter(route => !/^\/_?_nuxt/.test(route)));
+    for (const route of Object.keys(behaviorProps)) {
+      if (!routes.includes(route)) {
+        throw new Error(`The route ${route} of routeRules.behaviors is missing in the route rules of the build output.`);
+      }
+    }
 
-    const staticAssetsBehavior: BehaviorOptions = {
-      origin: this.s3Origin,
-      compress: true,
-      allowedMethods: AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
-      cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
-      cachePolicy: CachePolicy.CACHING_OPTIMIZED,
-      viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+    const rootRoutes = routes.filter(isRootRoute);
+    const rootRule = this.mergeRouteRules([...rootRoutes].reverse().map(route => routeRules[route]));
+    const defaultBehavior = this.applyRouteRule(props, 'Root', '/**', ['*'], rootRule, serverBehavior, serverBehavior,
+      rootRoutes.map(route => behaviorProps[route]).find(Boolean));
+
+    const behaviors: Record<string, BehaviorOptions> = {};
+    routes
+      .filter(route => !isRootRoute(route) && (this.isBehaviorRule(routeRules[route]) || !!behaviorProps[route]))
+      .forEach((route, index) => {
+        // The rules of the less specific routes matching the route, e.g. /blog/** for /blog/featured
+        const literalPath = (route.includes('*') ? route.slice(0, route.indexOf('*')).replace(/\/$/, '') : route) || '/';
+        const matchingRoutes = routes.filter(other => !isRootRoute(other)
+          && (other === route || (routes.indexOf(other) > routes.indexOf(route) && new RegExp(toRouteRegExp(other)).test(literalPath))));
+        const rule = this.mergeRouteRules(matchingRoutes.reverse().map(other => routeRules[other]));
+
+        const patterns = toPathPatterns(route);
+        const behavior = this.applyRouteRule(props, `${index}`, route, patterns, {
+          ...rule,
+          // The headers of the root routes are part of the response headers policy of the route
+          headers: rule.headers ? { ...rootRule.headers, ...rule.headers } : undefined,
+        }, serverBehavior, defaultBehavior, behaviorProps[route]);
+
+        for (const pattern of patterns) {
+          behaviors[pattern] ??= behavior;
+        }
+      });
+
+    return { defaultBehavior, behaviors };
+  }
+
+  /**
+   * Whether a route rule changes the behavior of its route, instead of the viewer request function of the pages.
+   *
+   * @private
+   */
+  private isBehaviorRule(rule: NitroRouteRule): boolean {
+    return rule.cache !== undefined || !!rule.swr || !!rule.isr || !!(rule.headers && Object.keys(rule.headers).length);
+  }
+
+  /**
+   * Merges the route rules matching a route, ordered from the least to the most specific, like Nitro.
+   *
+   * @private
+   */
+  private mergeRouteRules(rules: NitroRouteRule[]): NitroRouteRule {
+    return rules.reduce<NitroRouteRule>((merged, rule) => ({
+      ...merged,
+      ...rule,
+      cache: rule.cache === undefined ? merged.cache : (rule.cache && { ...(merged.cache || {}), ...rule.cache }),
+      headers: merged.headers || rule.headers ? { ...merged.headers, ...rule.headers } : undefined,
+    }), {});
+  }
+
+  /**
+   * Applies the cache and header rules of a route, and the cache key and forward settings of its behavior, to a behavior.
+   *
+   * @param id - The suffix of the IDs of the policies of the route.
+   * @param patterns - The path patterns of the behaviors of the route.
+   * @param serverBehavior - The default behavior of the server-rendered routes, used by the uncached routes.
+   * @param baseBehavior - The behavior to extend.
+   * @param behaviorProps - The cache key and forward settings of the behavior of the route, if any.
+   * @private
+   */
+  private applyRouteRule(props: ClientProps, id: string, route: string, patterns: string[], rule: NitroRouteRule, serverBehavior: BehaviorOptions, baseBehavior: BehaviorOptions, behaviorProps?: RouteRuleBehaviorProps): BehaviorOptions {
+    let behavior = baseBehavior;
+    const cached = rule.cache !== false && !!(rule.swr || rule.isr || rule.cache?.swr);
+
+    if (behaviorProps?.cacheKey && !cached) {
+      throw new Error(`The cacheKey of the route ${route} in routeRules.behaviors requires a swr or isr route rule.`);
+    }
+
+    if (rule.cache === false) {
+      behavior = {
+        ...behavior,
+        origin: serverBehavior.origin,
+        allowedMethods: serverBehavior.allowedMethods,
+        cachedMethods: serverBehavior.cachedMethods,
+        cachePolicy: serverBehavior.cachePolicy,
+        originRequestPolicy: serverBehavior.originRequestPolicy,
+      };
+    } else if (cached) {
+      // Origin groups only accept the read-only methods
+      const allowAllMethods = serverBehavior.allowedMethods === AllowedMethods.ALLOW_ALL;
+      behavior = {
+        ...behavior,
+        origin: allowAllMethods ? serverBehavior.origin : this.serverOrigin,
+        allowedMethods: allowAllMethods ? AllowedMethods.ALLOW_ALL : AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+        cachedMethods: CachedMethods.CACHE_GET_HEAD_OPTIONS,
+        cachePolicy: this.createRouteCachePolicy(props, `RouteRuleCachePolicy${id}`, `route-rule-${id.toLowerCase()}`,
+          { ...this.toCachedRoute(route, rule), cacheKey: behaviorProps?.cacheKey }, patterns),
+        originRequestPolicy: this.getHostOriginRequestPolicy(),
+      };
+    }
+
+    if (behaviorProps?.forward) {
+      behavior = {
+        ...behavior,
+        originRequestPolicy: this.createOriginRequestPolicy(`RouteRuleOriginRequestPolicy${id}`, `route-rule-origin-request-policy-${id.toLowerCase()}`,
+          `Origin request policy for ${route}`, behaviorProps.forward),
+      };
+    }
+
+    if (rule.headers && Object.keys(rule.headers).length) {
+      behavior = {
+        ...behavior,
+        responseHeadersPolicy: this.createRouteResponseHeadersPolicy(props, `RouteRuleResponseHeadersPolicy${id}`, route, rule.headers),
+      };
+    }
+
+    return behavior;
+  }
+
+  /**
+   * Reads the route rules and the prerendered routes of the build output, after checking that the build targets the Lambda function.
+   *
+   * @param props
+   * @private
+   */
+  private readRouteManifest(props: ClientProps): NitroRouteManifest {
+    const serverDir = path.join(props.rootDir || '.', props.serverProps?.codeDir || '.output/server');
+    const outputDir = path.dirname(serverDir);
+
+    // Container images may run the server of another preset
+    if (!props.serverProps?.dockerFile) {
+      checkNitroBuildInfo(readNitroBuildInfo(outputDir), !!props.serverProps?.streaming);
+    }
+
+    return readRouteManifest(outputDir, serverDir, path.join(props.rootDir || '.', props.buildProps?.outputDir || '.output/public'));
+  }
+
+  /**
+   * Maps the URIs of the HTML pages prerendered by Nitro, with and without trailing slash, to the keys of their objects in the S3 bucket.
+   *
+   * @param routeManifest - The route manifest of the build output.
+   * @private
+   */
+  private getRouteManifestPages(routeManifest: NitroRouteManifest): Record<string, string> {
+    const pages: Record<string, string> = {};
+
+    for (const { route, fileName } of routeManifest.prerenderedRoutes) {
+      if (!fileName.endsWith('.html') || route.includes('?')) continue;
+
+      const key = '/' + fileName.replace(/^\//, '');
+      const uri = route.replace(/\/$/, '') || '/';
+      pages[uri] = key;
+      if (uri !== '/') {
+        pages[uri + '/'] = key;
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Lists the prerendered pages of the public output directory for the hybrid mode.
+   *
+   * @param props
+   * @private
+   */
+  private getPrerenderedPages(props: ClientProps): Record<string, string> {
+    const publicDir = path.join(props.rootDir || '.', props.buildProps?.outputDir || '.output/public');
+    return listPrerenderedPages(publicDir);
+  }
+
+  /**
+   * Creates a CloudFront Function for the viewer requests.
+   * The access restriction, the edge rules and the redirects of the route rules are applied before the handler,
+   * as a behavior accepts a single function per event type.
+   *
+   * @param code - The code of the function, or undefined to only apply the steps.
+   * @param withEdgeRules - Whether to apply the edge rules and the redirects of the route rules, which only apply to the pages.
+   * @private
+   */
+  private createViewerRequestFunction(props: ClientProps, id: string, comment: string, code?: string, withEdgeRules = true): CloudFrontFunction {
+    const steps = [this.protectionStep, ...(withEdgeRules ? [this.edgeRulesStep, this.routeRedirectsStep] : [])]
+      .filter((step): step is ViewerRequestStep => !!step);
+
+    return new CloudFrontFunction(this, id, {
+      comment: comment,
+      code: FunctionCode.fromInline(composeViewerRequestCode(steps, code)),
+      runtime: FunctionRuntime.JS_2_0,
+      keyValueStore: this.keyValueStore,
+    });
+  }
+
+  /**
+   * Creates the custom resource that reads the basic auth credentials from the secret and returns their hash.
+   * The secret is read on every deployment to pick up changed credentials.
+   *
+   * @private
+   */
+  private createCredentialsHash(props: ClientProps): string {
+    const secret = Secret.fromSecretCompleteArn(this, 'BasicAuthSecret', props.protection?.basicAuthSecretArn as string);
+
+    const handler = new LambdaFunction(this, 'CredentialsHashFunction', {
+      description: `Hashes the basic auth credentials of the ${this.resourceIdPrefix} app.`,
+      runtime: Runtime.NODEJS_20_X,
+      architecture: Architecture.ARM_64,
+      handler: 'index.handler',
+      code: Code.fromInline(createCredentialsHashHandlerCode()),
+      timeout: Duration.minutes(1),
+      memorySize: 128,
+      logGroup: new LogGroup(this, 'CredentialsHashLogGroup', {
+        retention: RetentionDays.ONE_WEEK,
+      }),
+    });
+    secret.grantRead(handler);
+
+    const provider = new Provider(this, 'CredentialsHashProvider', {
+      onEventHandler: handler,
+      logGroup: new LogGroup(this, 'CredentialsHashProviderLogGroup', {
+        retention: RetentionDays.ONE_DAY,
+      }),
+    });
+
+    const credentialsHash = new CustomResource(this, 'CredentialsHash', {
+      serviceToken: provider.serviceToken,
+      properties: {
+        SecretId: secret.secretArn,
+        // Changes on every deployment to read the current credentials
+        Revision: this.revision,
+      },
+    });
+
+    return credentialsHash.getAttString('Hash');
+  }
+
+  /**
+   * Resolves the cache TTLs of a `swr` or `isr` route rule.
+   * An `isr` route without a TTL is cached until the next deployment invalidates the cache.
+   *
+   * @private
+   */
+  private toCachedRoute(route: string, rule: NitroRouteRule): CachedRouteProps {
+    const oneYear = 31536000;
+
+    if (rule.isr) {
+      return { path: route, ttl: typeof rule.isr === 'number' ? rule.isr : oneYear };
+    }
+
+    const cache = rule.cache || {};
+    return {
+      path: route,
+      ttl: cache.maxAge ?? (typeof rule.swr === 'number' ? rule.swr : 1),
+      staleWhileRevalidate: cache.staleMaxAge !== undefined && cache.staleMaxAge >= 0 ? cache.staleMaxAge : oneYear,
     };
-    
-    // loop through the server paths and attach api behavior - default to /api/*
-    for (const pattern of props.serverProps?.paths || ['/api/*']) {
-      additionalBehaviors[pattern] = apiRouteBehavior;
+  }
+
+  /**
+   * Creates the response headers policy of a route with `headers` or `cors` route rules,
+   * based on the default response headers policy.
+   * The `access-control-*` headers are mapped to the CORS behavior of the policy.
+   *
+   * @private
+   */
+  private createRouteResponseHeadersPolicy(props: ClientProps, id: string, route: string, headers: Record<string, string>): ResponseHeadersPolicy {
+    const baseProps = this.getResponseHeadersPolicyProps(props);
+    const corsHeaders: Record<string, string> = {};
+    const customHeaders = new Map((baseProps.customHeadersBehavior?.customHeaders || []).map(header => [header.header.toLowerCase(), header]));
+
+    for (const [key, value] of Object.entries(headers)) {
+      const name = key.toLowerCase();
+      if (name.startsWith('access-control-')) {
+        corsHeaders[name] = String(value);
+      } else {
+        customHeaders.set(name, { header: key, value: String(value), override: true });
+      }
     }
-    // take all the static assets and attach the static assets behavior
-    additionalBehaviors['*.*'] = staticAssetsBehavior;
 
+    const toList = (value: string | undefined, fallback: string[]) =>
+      value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
 
-    /**
-     * Create the CDN
-     */
-    return new Distribution(this, 'CDN', {
-      comment: "Stack: " + Aws.STACK_NAME,
-      enableLogging: props.debug ? true : false,
-      minimumProtocolVersion: SecurityPolicyProtocol.TLS_V1_2_2021,
-      httpVersion: HttpVersion.HTTP3,
-      defaultBehavior: defaultRouteBehavior,
-      additionalBehaviors: additionalBehaviors,
-      logBucket: this.accessLogsBucket,
-      logIncludesCookies: true,
-      // defaultRootObject: "index.html", // causes SSR path / to 404
-      ...(props.domain && props.globalCertificateArn
-        ? {
-            domainNames: [props.domain],
-            certificate: Certificate.fromCertificateArn(this, `${this.resourceIdPrefix}-global-certificate`, props.globalCertificateArn),
-          }
-        : {}),
+    const corsBehavior: ResponseHeadersCorsBehavior | undefined = Object.keys(corsHeaders).length
+      ? {
+          accessControlAllowCredentials: corsHeaders['access-control-allow-credentials'] === 'true',
+          accessControlAllowHeaders: toList(corsHeaders['access-control-allow-headers'], ['*']),
+          accessControlAllowMethods: corsHeaders['access-control-allow-methods'] === '*'
+            ? ['ALL']
+            : toList(corsHeaders['access-control-allow-methods']?.toUpperCase(), ['GET', 'HEAD', 'OPTIONS']),
+          accessControlAllowOrigins: toList(corsHeaders['access-control-allow-origin'], ['*']),
+          accessControlExposeHeaders: toList(corsHeaders['access-control-expose-headers'], []),
+          accessControlMaxAge: corsHeaders['access-control-max-age'] !== undefined
+            ? Duration.seconds(parseInt(corsHeaders['access-control-max-age'], 10) || 0)
+            : undefined,
+          originOverride: true,
+        }
+      : baseProps.corsBehavior;
+
+    return new ResponseHeadersPolicy(this, id, {
+      ...baseProps,
+      responseHeadersPolicyName: undefined,
+      comment: `Response headers for ${route}`,
+      corsBehavior,
+      customHeadersBehavior: { customHeaders: [...customHeaders.values()] },
     });
   }
 
+  /**
+   * Creates the custom error responses of the CloudFront distribution.
+   * The errorPagePath handles missing pages (S3 responds with 404 for missing objects, as CloudFront may list the bucket),
+   * the maintenancePagePath handles failures of the server origin.
+   * Other 403 responses, e.g. of the web ACL or the server, are passed through.
+   *
+   * @param props
+   * @private
+   */
+  private createErrorResponses(props: ClientProps): ErrorResponse[] {
+    const allowedStatusCodes = [403, 404, 500, 502, 503, 504];
+    const errorPages = new Map<number, ErrorResponse>();
+
+    const addErrorPage = (httpStatus: number, pagePath: string, responseHttpStatus: number, ttl: number) => {
+      if (!allowedStatusCodes.includes(httpStatus)) {
+        throw new Error(`Unsupported error page status code ${httpStatus}. Use one of ${allowedStatusCodes.join(', ')}.`);
+      }
+      if (!pagePath.startsWith('/')) {
+        throw new Error(`The error page path ${pagePath} must start with a slash.`);
+      }
+      errorPages.set(httpStatus, {
+        httpStatus,
+        responseHttpStatus,
+        responsePagePath: pagePath,
+        ttl: Duration.seconds(ttl),
+      });
+    };
+
+    if (props.errorPagePath) {
+      addErrorPage(404, props.errorPagePath, 404, 10);
+    }
+
+    if (props.maintenancePagePath) {
+      for (const httpStatus of [502, 503, 504]) {
+        addErrorPage(httpStatus, props.maintenancePagePath, 503, 10);
+      }
+    }
+
+    for (const errorPage of props.errorPages || []) {
+      addErrorPage(errorPage.httpStatus, errorPage.pagePath, errorPage.responseHttpStatus ?? errorPage.httpStatus, errorPage.ttl ?? 10);
+    }
+
+    return [...errorPages.values()];
+  }
+
   /**
    * DEPLOY
    * 
@@ -317,17 +1163,24 @@ export class ClientConstruct extends Construct {
    * we deploy the static assets of every deployment into the same folder but mark them with a deployment revision.
    * By doing so, the files of previous deployments are retained to allow clients to continue to work with an older revision
    */
-  private setupDeployments(props: ClientProps): void {
+  private setupDeployments(props: ClientProps): BucketDeployment {
     const assetsSourcePath = `${props.rootDir || '.'}/${props.buildProps?.outputDir || '.output/public'}`;
+    const assetsSource = Source.asset(assetsSourcePath, {
+      exclude: props.buildProps?.exclude,
+    });
 
-    new BucketDeployment(this, 'AssetsDeployment', {
-      sources: [Source.asset(assetsSourcePath, {
-        exclude: props.buildProps?.exclude,
-      })],
+    const deployment = new BucketDeployment(this, 'AssetsDeployment', {
+      sources: [assetsSource],
+      // The prerendered pages are deployed with their own Cache-Control header
+      exclude: this.pagesCachePolicy ? ['*.html'] : undefined,
       include: props.buildProps?.include,
       destinationBucket: this.staticAssetsBucket,
-      distribution: this.cdn,
-      distributionPaths: ['/**'],
+      ...(this.pagesCachePolicy
+        ? {}
+        : {
+            distribution: this.cdn,
+            distributionPaths: ['/**'],
+          }),
       prune: false,
       storageClass: StorageClass.STANDARD,
       cacheControl: [
@@ -340,50 +1193,135 @@ export class ClientConstruct extends Construct {
       }),
       metadata: {
         // Store build revision on every asset to allow cleanup of outdated assets
-        revision: new Date().toISOString(),
+        revision: this.revision,
       },
       memoryLimit: 1792
-    })
+    });
+
+    /**
+     * The prerendered pages
+     * Browsers revalidate the pages, while CloudFront caches them until the invalidation of the next deployment.
+     */
+    if (this.pagesCachePolicy) {
+      const pagesDeployment = new BucketDeployment(this, 'PagesDeployment', {
+        sources: [assetsSource],
+        exclude: ['*'],
+        include: ['*.html'],
+        destinationBucket: this.staticAssetsBucket,
+        distribution: this.cdn,
+        distributionPaths: ['/**'],
+        prune: false,
+        storageClass: StorageClass.STANDARD,
+        cacheControl: [
+          CacheControl.setPublic(),
+          CacheControl.maxAge(Duration.seconds(0)),
+          CacheControl.sMaxAge(Duration.days(365)),
+          CacheControl.mustRevalidate(),
+        ],
+        logGroup: new LogGroup(this, 'PagesDeploymentLogGroup', {
+          retention: RetentionDays.ONE_DAY,
+        }),
+        metadata: {
+          revision: this.revision,
+        },
+        memoryLimit: 1792
+      });
+      // Invalidate the cache once all objects are deployed
+      pagesDeployment.node.addDependency(deployment);
+    }
+
+    return deployment;
   }
 
   /**
-   * Resolves the hosted zone at which the DNS records shall be created to access the app on the internet.
+   * CLEANUP
+   *
+   * Creates a custom resource that prunes the outdated hashed assets (`_nuxt/*`) after every successful deployment.
+   * The assets listed by the manifests of the current build, of the last revisions and of those younger than the retention window are retained.
    *
    * @param props
+   * @param deployment - The bucket deployment to run after, which uploads the manifest of the current build.
    * @private
    */
-  private findHostedZone(props: ClientProps): IHostedZone | void {
-    const domainParts = props.domain?.split('.');
-    if (!domainParts) return;
+  private createAssetsCleanup(props: ClientProps, deployment: BucketDeployment): void {
+    const prefix = '_nuxt/';
+    const assetsDir = path.join(props.rootDir || '.', props.buildProps?.outputDir || '.output/public', prefix);
+
+    // Upload the manifest of the assets of the current build with the deployment, named after its revision
+    deployment.addSource(Source.jsonData(`${DEPLOYMENT_MANIFEST_PREFIX}${this.revision}.json`, {
+      revision: this.revision,
+      keys: listAssetKeys(assetsDir, prefix),
+    }));
 
-    return HostedZone.fromHostedZoneAttributes(this, `${this.resourceIdPrefix}-hosted-zone`, {
-      hostedZoneId: props.hostedZoneId as string,
-      zoneName: domainParts[domainParts.length - 1] // Support subdomains
+    const handler = new LambdaFunction(this, 'AssetsCleanupFunction', {
+      description: `Prunes the outdated assets of the ${this.resourceIdPrefix} app.`,
+      runtime: Runtime.NODEJS_20_X,
+      architecture: Architecture.ARM_64,
+      handler: 'index.handler',
+      code: Code.fromInline(createAssetsCleanupHandlerCode()),
+      timeout: Duration.minutes(5),
+      memorySize: 256,
+      logGroup: new LogGroup(this, 'AssetsCleanupLogGroup', {
+        retention: RetentionDays.ONE_WEEK,
+      }),
+    });
+    for (const keyPrefix of [prefix, DEPLOYMENT_MANIFEST_PREFIX]) {
+      this.staticAssetsBucket.grantRead(handler, `${keyPrefix}*`);
+      this.staticAssetsBucket.grantDelete(handler, `${keyPrefix}*`);
+    }
+
+    const provider = new Provider(this, 'AssetsCleanupProvider', {
+      onEventHandler: handler,
+      logGroup: new LogGroup(this, 'AssetsCleanupProviderLogGroup', {
+        retention: RetentionDays.ONE_DAY,
+      }),
     });
+
+    const cleanup = new CustomResource(this, 'AssetsCleanup', {
+      serviceToken: provider.serviceToken,
+      properties: {
+        BucketName: this.staticAssetsBucket.bucketName,
+        Prefix: prefix,
+        ManifestPrefix: DEPLOYMENT_MANIFEST_PREFIX,
+        // Changes on every deployment to run the cleanup
+        Revision: this.revision,
+        RetainRevisions: props.buildProps?.retention?.revisions ?? 3,
+        RetainDays: props.buildProps?.retention?.days ?? 30,
+      },
+    });
+    cleanup.node.addDependency(deployment);
   }
 
   /**
-   * Creates the DNS records to access the app on the internet via the custom domain.
+   * Creates the DNS records to access the app on the internet via the custom domain and its aliases.
    *
    * @param props
    * @private
    */
   private createDnsRecords(props: ClientProps): void {
-    const hostedZone = this.findHostedZone(props);
+    const hostedZone = findHostedZone(this, `${this.resourceIdPrefix}-hosted-zone`, props);
+    if (!hostedZone) return;
+
     const dnsTarget = RecordTarget.fromAlias(new CloudFrontTarget(this.cdn));
 
-    // Create a record for IPv4
-    new ARecord(this, `${this.resourceIdPrefix}-ipv4-record`, {
-      recordName: props.domain,
-      zone: hostedZone as IHostedZone,
-      target: dnsTarget,
-    });
+    getDomainNames(props).forEach((domainName, index) => {
+      // Keep the IDs of the records of the primary domain
+      const idSuffix = index ? `-${index}` : '';
+
+      // Create a record for IPv4
+      new ARecord(this, `${this.resourceIdPrefix}-ipv4-record${idSuffix}`, {
+        // Fully qualified, as the zone name is unknown when the zone is imported by its ID
+        recordName: `${domainName}.`,
+        zone: hostedZone as IHostedZone,
+        target: dnsTarget,
+      });
 
-    // Create a record for IPv6
-    new AaaaRecord(this, `${this.resourceIdPrefix}-ipv6-record`, {
-      recordName: props.domain,
-      zone: hostedZone as IHostedZone,
-      target: dnsTarget,
+      // Create a record for IPv6
+      new AaaaRecord(this, `${this.resourceIdPrefix}-ipv6-record${idSuffix}`, {
+        recordName: `${domainName}.`,
+        zone: hostedZone as IHostedZone,
+        target: dnsTarget,
+      });
     });
   }
 
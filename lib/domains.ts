@@ -0,0 +1,51 @@
+import { Construct } from 'constructs';
+import { HostedZone, type IHostedZone } from 'aws-cdk-lib/aws-route53';
+import { NuxtProps } from '../stack/NuxtProps';
+
+/**
+ * Lists the domain names of the app, the primary domain first.
+ */
+export function getDomainNames(props: NuxtProps): string[] {
+  if (props.domainAliases?.length && !props.domain) {
+    throw new Error('The domainAliases require a domain.');
+  }
+  return props.domain ? [...new Set([props.domain, ...(props.domainAliases || [])])] : [];
+}
+
+/**
+ * Whether a hosted zone is configured to create the DNS records and to validate the certificates.
+ */
+export function hasHostedZone(props: NuxtProps): boolean {
+  return !!(props.hostedZoneId || props.hostedZoneName);
+}
+
+/**
+ * Whether the certificate of the CloudFront distribution is issued by the stack instead of being imported.
+ */
+export function shouldIssueGlobalCertificate(props: NuxtProps): boolean {
+  return !!props.domain && !props.globalCertificateArn && hasHostedZone(props);
+}
+
+/**
+ * Resolves the hosted zone of the domains by its ID, its name or both.
+ * A zone referenced by its name only is looked up in the account on synth.
+ * The DNS records are created with fully qualified names, so the zone name is not required with the ID.
+ *
+ * @param scope - The scope of the imported hosted zone.
+ * @param id - The ID of the imported hosted zone.
+ */
+export function findHostedZone(scope: Construct, id: string, props: NuxtProps): IHostedZone | undefined {
+  if (props.hostedZoneId && props.hostedZoneName) {
+    return HostedZone.fromHostedZoneAttributes(scope, id, {
+      hostedZoneId: props.hostedZoneId,
+      zoneName: props.hostedZoneName,
+    });
+  }
+  if (props.hostedZoneId) {
+    return HostedZone.fromHostedZoneId(scope, id, props.hostedZoneId);
+  }
+  if (props.hostedZoneName) {
+    return HostedZone.fromLookup(scope, id, { domainName: props.hostedZoneName });
+  }
+  return undefined;
+}
@@ -0,0 +1,195 @@
+import { type EdgeRulesProps } from '../stack/NuxtProps';
+import { type ViewerRequestStep } from './viewer-request';
+import { toRouteRegExp } from './route-rules';
+
+// The exact redirects share the KeyValueStore with the prerendered pages, whose keys start with a slash
+const REDIRECT_KEY_PREFIX = 'redirect:';
+
+// Leaves most of the 10 KB of function code to the other tables and steps
+const MAX_INLINE_REDIRECTS_SIZE = 2 * 1024;
+
+/**
+ * Maps the exact source paths of the redirects to their status code and destination, e.g. `301 /new-page`.
+ * Redirects with a `*` in the source are matched by pattern instead.
+ */
+export function getRedirectTable(rules: EdgeRulesProps): Record<string, string> {
+  return Object.fromEntries((rules.redirects || [])
+    .filter(redirect => !redirect.source.includes('*'))
+    .map(redirect => [redirect.source, `${redirect.statusCode || 301} ${redirect.destination}`]));
+}
+
+/**
+ * Whether the redirect table fits into the code of a CloudFront Function.
+ */
+export function canInlineRedirects(table: Record<string, string>): boolean {
+  return Buffer.byteLength(JSON.stringify(table)) < MAX_INLINE_REDIRECTS_SIZE;
+}
+
+/**
+ * Converts the redirect table to the entries of the KeyValueStore.
+ */
+export function toRedirectEntries(table: Record<string, string>): { key: string; value: string; }[] {
+  return Object.entries(table).map(([key, value]) => ({ key: REDIRECT_KEY_PREFIX + key, value }));
+}
+
+/**
+ * Creates the viewer request step that applies the edge rules, in order:
+ * canonical host, redirects, trailing slash, locale redirects and header-based rewrites.
+ * Rewrites change the request URI and continue with the next step.
+ *
+ * @param rules - The edge rules.
+ * @param domainNames - The domain names of the distribution. The names other than the canonical host are redirected to it.
+ * @param redirectTable - The exact redirects, or undefined to read them from the KeyValueStore.
+ */
+export function createEdgeRulesStep(rules: EdgeRulesProps, domainNames: string[], redirectTable?: Record<string, string>): ViewerRequestStep {
+  const canonicalHost = rules.canonicalHost?.toLowerCase() || '';
+  if (canonicalHost && !domainNames.some(domainName => domainName.toLowerCase() === canonicalHost)) {
+    throw new Error(`The canonicalHost ${rules.canonicalHost} of the edge rules must be the domain or one of the domainAliases.`);
+  }
+  const aliasHosts = canonicalHost
+    ? domainNames.map(domainName => domainName.toLowerCase()).filter(domainName => domainName !== canonicalHost)
+    : [];
+
+  const patternRedirects = (rules.redirects || [])
+    .filter(redirect => redirect.source.includes('*'))
+    .map(redirect => ({
+      pattern: toRouteRegExp(redirect.source),
+      base: redirect.source.endsWith('/**') ? redirect.source.slice(0, -3) : '',
+      to: redirect.destination,
+      statusCode: redirect.statusCode || 301,
+    }));
+
+  const rewrites = (rules.rewrites || []).map(rewrite => ({
+    pattern: toRouteRegExp(rewrite.source),
+    to: rewrite.destination,
+    header: rewrite.header.toLowerCase(),
+    value: rewrite.value,
+  }));
+
+  const locale = rules.locale && {
+    codes: rules.locale.locales,
+    defaultLocale: rules.locale.defaultLocale,
+    prefixDefault: rules.locale.strategy === 'prefix',
+    redirectOnRoot: (rules.locale.redirectOn || 'root') === 'root',
+    cookieKey: rules.locale.cookieKey || 'i18n_redirected',
+  };
+
+  if (locale && !locale.codes.includes(locale.defaultLocale)) {
+    throw new Error(`The default locale ${locale.defaultLocale} is missing in edgeRules.locale.locales.`);
+  }
+
+  const lookup = redirectTable
+    ? `var edgeRedirectTable = ${JSON.stringify(redirectTable)};
+
+async function getEdgeRedirect(uri) {
+  return edgeRedirectTable[uri];
+}`
+    : `var edgeKvs = cf.kvs();
+
+async function getEdgeRedirect(uri) {
+  try {
+    return await edgeKvs.get(${JSON.stringify(REDIRECT_KEY_PREFIX)} + uri);
+  } catch (err) {
+    return undefined;
+  }
+}`;
+
+  return {
+    name: 'applyEdgeRules',
+    imports: redirectTable ? [] : ["import cf from 'cloudfront';"],
+    code: `var edgeCanonicalHost = ${JSON.stringify(canonicalHost)};
+var edgeAliasHosts = ${JSON.stringify(aliasHosts)};
+var edgeTrailingSlash = ${JSON.stringify(rules.trailingSlash || '')};
+var edgePatternRedirects = ${JSON.stringify(patternRedirects)};
+var edgeRewrites = ${JSON.stringify(rewrites)};
+var edgeLocale = ${JSON.stringify(locale || null)};
+
+${lookup}
+
+function edgeRedirect(statusCode, location, query) {
+  if (query) {
+    location += (location.indexOf('?') === -1 ? '?' : '&') + query;
+  }
+  return {
+    statusCode: statusCode,
+    statusDescription: 'Redirect',
+    headers: { location: { value: location } },
+  };
+}
+
+function detectLocale(request) {
+  var cookie = request.cookies[edgeLocale.cookieKey];
+  if (cookie && edgeLocale.codes.indexOf(cookie.value) !== -1) return cookie.value;
+
+  var header = request.headers['accept-language'];
+  var languages = (header ? header.value : '').split(',').map(function (part) {
+    var fields = part.trim().split(';q=');
+    return { tag: fields[0].toLowerCase(), q: fields.length > 1 ? parseFloat(fields[1]) : 1 };
+  }).sort(function (a, b) {
+    return b.q - a.q;
+  });
+
+  for (var i = 0; i < languages.length; i++) {
+    for (var j = 0; j < edgeLocale.codes.length; j++) {
+      var code = edgeLocale.codes[j];
+      if (languages[i].tag === code.toLowerCase() || languages[i].tag.split('-')[0] === code.toLowerCase()) return code;
+    }
+  }
+  return edgeLocale.defaultLocale;
+}
+
+async function applyEdgeRules(event) {
+  var request = event.request;
+  var uri = request.uri;
+  var host = request.headers.host ? request.headers.host.value : '';
+  var query = Object.keys(request.querystring).map(function (key) {
+    return key + '=' + request.querystring[key].value;
+  }).join('&');
+
+  // Only the aliases are redirected, not the domain of the distribution, e.g. d111111abcdef8.cloudfront.net
+  if (edgeAliasHosts.indexOf(host.toLowerCase()) !== -1) {
+    return edgeRedirect(301, 'https://' + edgeCanonicalHost + uri, query);
+  }
+
+  var target = await getEdgeRedirect(uri);
+  if (target) {
+    var separator = target.indexOf(' ');
+    return edgeRedirect(Number(target.slice(0, separator)), target.slice(separator + 1), query);
+  }
+  for (var i = 0; i < edgePatternRedirects.length; i++) {
+    var redirect = edgePatternRedirects[i];
+    if (!new RegExp(redirect.pattern).test(uri)) continue;
+
+    var location = redirect.to;
+    if (location.endsWith('/**')) {
+      location = location.slice(0, -3) + uri.slice(redirect.base.length);
+    }
+    return edgeRedirect(redirect.statusCode, location, query);
+  }
+
+  var isPage = uri.split('/').pop().indexOf('.') === -1;
+  if (edgeTrailingSlash === 'add' && isPage && !uri.endsWith('/')) {
+    return edgeRedirect(301, uri + '/', query);
+  }
+  if (edgeTrailingSlash === 'remove' && uri.length > 1 && uri.endsWith('/')) {
+    return edgeRedirect(301, uri.slice(0, -1), query);
+  }
+
+  if (edgeLocale && isPage && edgeLocale.codes.indexOf(uri.split('/')[1]) === -1 && (uri === '/' || !edgeLocale.redirectOnRoot)) {
+    var locale = detectLocale(request);
+    if (locale !== edgeLocale.defaultLocale || edgeLocale.prefixDefault) {
+      return edgeRedirect(302, '/' + locale + (uri === '/' ? '' : uri), query);
+    }
+  }
+
+  for (var j = 0; j < edgeRewrites.length; j++) {
+    var rewrite = edgeRewrites[j];
+    var value = request.headers[rewrite.header];
+    if (value && (rewrite.value === undefined || value.value === rewrite.value) && new RegExp(rewrite.pattern).test(uri)) {
+      request.uri = rewrite.to;
+      break;
+    }
+  }
+}`,
+  };
+}
@@ -1,2 +1,6 @@
 export { ServerConstruct } from "./server";
 export { ClientConstruct } from "./client";
+export { PipelineConstruct } from "./pipeline";
+export { WafConstruct } from "./waf";
+export { MonitoringConstruct } from "./monitoring";
+export { CertificateConstruct } from "./certificate";
@@ -0,0 +1,243 @@
+import { Annotations, Duration, Stack } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { type Function } from 'aws-cdk-lib/aws-lambda';
+import { type IHttpApi } from 'aws-cdk-lib/aws-apigatewayv2';
+import { type IDistribution, CfnMonitoringSubscription } from 'aws-cdk-lib/aws-cloudfront';
+import { MetricFilter, FilterPattern } from 'aws-cdk-lib/aws-logs';
+import { Topic, type ITopic } from 'aws-cdk-lib/aws-sns';
+import { EmailSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { Alarm, ComparisonOperator, Dashboard, GraphWidget, MathExpression, Metric, TreatMissingData, type IMetric, type IWidget } from 'aws-cdk-lib/aws-cloudwatch';
+import { NuxtProps, type MonitoringProps } from '../stack/NuxtProps';
+
+export interface MonitoringTargetProps {
+  lambdaFunction: Function;
+  // The HTTP API in front of the function, if any.
+  httpApi?: IHttpApi;
+  cdn: IDistribution;
+}
+
+type MonitoringConstructProps = NuxtProps & MonitoringTargetProps;
+type MonitoringMetrics = ReturnType<MonitoringConstruct['createMetrics']>;
+
+export class MonitoringConstruct extends Construct {
+  private readonly resourceIdPrefix: string;
+  public alarmTopic: ITopic;
+  public alarms: Alarm[] = [];
+  public dashboard: Dashboard|undefined;
+
+  constructor(scope: Construct, id: string, nuxtProps: NuxtProps, targetProps: MonitoringTargetProps) {
+    super(scope, id);
+
+    // Merge props
+    const props: MonitoringConstructProps = { ...nuxtProps, ...targetProps };
+    const monitoring: MonitoringProps = props.monitoring || {};
+
+    // Set the resource prefix
+    this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+
+    this.alarmTopic = this.createAlarmTopic(monitoring);
+
+    // Enable the additional CloudFront metrics, e.g. the cache hit rate, which are billed per distribution
+    if (monitoring.cloudFrontAdditionalMetrics) {
+      new CfnMonitoringSubscription(this, 'CloudFrontMonitoringSubscription', {
+        distributionId: props.cdn.distributionId,
+        monitoringSubscription: {
+          realtimeMetricsSubscriptionConfig: { realtimeMetricsSubscriptionStatus: 'Enabled' },
+        },
+      });
+    }
+
+    const metrics = this.createMetrics(props);
+    this.createAlarms(props, monitoring, metrics);
+
+    if (monitoring.dashboard !== false) {
+      this.dashboard = this.createDashboard(props, monitoring, metrics);
+    }
+  }
+
+  /**
+   * Creates the SNS topic notified by the alarms, or imports the existing topic.
+   *
+   * @private
+   */
+  private createAlarmTopic(monitoring: MonitoringProps): ITopic {
+    const topic = monitoring.alarmTopicArn
+      ? Topic.fromTopicArn(this, 'AlarmTopic', monitoring.alarmTopicArn)
+      : new Topic(this, 'AlarmTopic', {
+          topicName: `${this.resourceIdPrefix}-alarms`,
+          displayName: `Alarms of the ${this.resourceIdPrefix} app`,
+        });
+
+    for (const email of monitoring.alarmEmails || []) {
+      topic.addSubscription(new EmailSubscription(email));
+    }
+
+    return topic;
+  }
+
+  /**
+   * Creates the metrics of the Lambda function, the HTTP API and the CloudFront distribution.
+   *
+   * @private
+   */
+  private createMetrics(props: MonitoringConstructProps) {
+    const fn = props.lambdaFunction;
+    const period = Duration.minutes(1);
+
+    // Lambda does not publish a metric for cold starts, so count the reports with an init duration
+    const coldStartFilter = new MetricFilter(this, 'ColdStartMetricFilter', {
+      logGroup: fn.logGroup,
+      metricNamespace: `Nuxt/${this.resourceIdPrefix}`,
+      metricName: 'ColdStarts',
+      filterPattern: props.serverProps?.logFormat === 'json'
+        ? FilterPattern.numberValue('$.record.metrics.initDurationMs', '>', 0)
+        : FilterPattern.anyTerm('Init Duration'),
+      metricValue: '1',
+    });
+
+    // CloudFront publishes its metrics in us-east-1
+    const cloudFrontMetric = (metricName: string, statistic: string) => new Metric({
+      namespace: 'AWS/CloudFront',
+      metricName: metricName,
+      dimensionsMap: { DistributionId: props.cdn.distributionId, Region: 'Global' },
+      region: 'us-east-1',
+      statistic: statistic,
+      period: period,
+    });
+
+    return {
+      invocations: fn.metricInvocations({ statistic: 'Sum', period }),
+      errors: fn.metricErrors({ statistic: 'Sum', period }),
+      throttles: fn.metricThrottles({ statistic: 'Sum', period }),
+      durationP50: fn.metricDuration({ statistic: 'p50', period }),
+      durationP99: fn.metricDuration({ statistic: 'p99', period }),
+      concurrency: fn.metric('ConcurrentExecutions', { statistic: 'Maximum', period }),
+      coldStarts: coldStartFilter.metric({ statistic: 'Sum', period }),
+      api4xx: props.httpApi?.metricClientError({ statistic: 'Sum', period }),
+      api5xx: props.httpApi?.metricServerError({ statistic: 'Sum', period }),
+      apiCount: props.httpApi?.metricCount({ statistic: 'Sum', period }),
+      apiLatencyP50: props.httpApi?.metricLatency({ statistic: 'p50', period }),
+      apiLatencyP99: props.httpApi?.metricLatency({ statistic: 'p99', period }),
+      cdnRequests: cloudFrontMetric('Requests', 'Sum'),
+      cdn4xxRate: cloudFrontMetric('4xxErrorRate', 'Average'),
+      cdn5xxRate: cloudFrontMetric('5xxErrorRate', 'Average'),
+      cdnHitRate: cloudFrontMetric('CacheHitRate', 'Average'),
+      cdnOriginLatency: cloudFrontMetric('OriginLatency', 'p99'),
+    };
+  }
+
+  /**
+   * Creates the alarms that notify the alarm topic.
+   * Alarms on the CloudFront metrics require the stack to be deployed in us-east-1, as the alarms notify a topic in their region.
+   *
+   * @private
+   */
+  private createAlarms(props: MonitoringConstructProps, monitoring: MonitoringProps, metrics: MonitoringMetrics): void {
+    const timeout = props.serverProps?.timeout ?? 10;
+
+    this.createAlarm('LambdaErrorRateAlarm', 'lambda-error-rate', 'The error rate of the Lambda function in percent is too high.',
+      new MathExpression({
+        expression: '100 * errors / MAX([invocations, 1])',
+        usingMetrics: { errors: metrics.errors, invocations: metrics.invocations },
+        period: Duration.minutes(1),
+      }),
+      monitoring.errorRateThreshold ?? 5);
+
+    this.createAlarm('LambdaThrottlesAlarm', 'lambda-throttles', 'The Lambda function is throttled.',
+      metrics.throttles,
+      monitoring.throttlesThreshold ?? 1,
+      ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD);
+
+    this.createAlarm('LambdaDurationAlarm', 'lambda-duration', 'The p99 duration of the Lambda function in milliseconds is close to the timeout.',
+      metrics.durationP99,
+      monitoring.durationThreshold ?? timeout * 1000 * 0.8);
+
+    if (metrics.api5xx && metrics.apiCount) {
+      this.createAlarm('Api5xxRateAlarm', 'api-5xx-rate', 'The 5xx error rate of the HTTP API in percent is too high.',
+        new MathExpression({
+          expression: '100 * errors / MAX([requests, 1])',
+          usingMetrics: { errors: metrics.api5xx, requests: metrics.apiCount },
+          period: Duration.minutes(1),
+        }),
+        monitoring.errorRateThreshold ?? 5);
+    }
+
+    if (Stack.of(this).region === 'us-east-1') {
+      this.createAlarm('CloudFront5xxRateAlarm', 'cdn-5xx-rate', 'The 5xx error rate of the CloudFront distribution in percent is too high.',
+        metrics.cdn5xxRate,
+        monitoring.errorRateThreshold ?? 5);
+    } else {
+      Annotations.of(this).addWarningV2('@thunderso/cdk-nuxt:cloudFrontAlarms',
+        `The CloudFront 5xx error rate alarm is not created, as CloudFront publishes its metrics in us-east-1 and the stack is deployed to ${Stack.of(this).region}. Create the alarm in us-east-1 to be notified of CloudFront errors.`);
+    }
+  }
+
+  /**
+   * Creates an alarm that notifies the alarm topic on alarm and recovery.
+   *
+   * @private
+   */
+  private createAlarm(id: string, name: string, description: string, metric: IMetric, threshold: number, comparisonOperator = ComparisonOperator.GREATER_THAN_THRESHOLD): Alarm {
+    const alarm = new Alarm(this, id, {
+      alarmName: `${this.resourceIdPrefix}-${name}`,
+      alarmDescription: description,
+      metric: metric,
+      threshold: threshold,
+      comparisonOperator: comparisonOperator,
+      evaluationPeriods: 5,
+      datapointsToAlarm: 3,
+      treatMissingData: TreatMissingData.NOT_BREACHING,
+    });
+
+    const action = new SnsAction(this.alarmTopic);
+    alarm.addAlarmAction(action);
+    alarm.addOkAction(action);
+    this.alarms.push(alarm);
+
+    return alarm;
+  }
+
+  /**
+   * Creates the dashboard with a row for the Lambda function, the HTTP API and the CloudFront distribution.
+   *
+   * @private
+   */
+  private createDashboard(props: MonitoringConstructProps, monitoring: MonitoringProps, metrics: MonitoringMetrics): Dashboard {
+    const widget = (title: string, left: IMetric[], right: IMetric[] = []) => new GraphWidget({
+      title: title,
+      left: left,
+      right: right,
+      width: 8,
+      height: 6,
+    });
+
+    const rows: IWidget[][] = [
+      [
+        widget('Lambda invocations and errors', [metrics.invocations, metrics.errors, metrics.throttles]),
+        widget('Lambda duration (ms)', [metrics.durationP50, metrics.durationP99]),
+        widget('Lambda concurrency and cold starts', [metrics.concurrency], [metrics.coldStarts]),
+      ],
+    ];
+
+    if (metrics.api4xx && metrics.api5xx && metrics.apiCount && metrics.apiLatencyP50 && metrics.apiLatencyP99) {
+      rows.push([
+        widget('API Gateway requests', [metrics.apiCount]),
+        widget('API Gateway errors', [metrics.api4xx, metrics.api5xx]),
+        widget('API Gateway latency (ms)', [metrics.apiLatencyP50, metrics.apiLatencyP99]),
+      ]);
+    }
+
+    // The cache hit rate and the origin latency are additional metrics
+    rows.push([
+      widget('CloudFront requests', [metrics.cdnRequests]),
+      widget('CloudFront error rates (%)', [metrics.cdn4xxRate, metrics.cdn5xxRate]),
+      ...(monitoring.cloudFrontAdditionalMetrics ? [widget('CloudFront cache hit rate (%)', [metrics.cdnHitRate], [metrics.cdnOriginLatency])] : []),
+    ]);
+
+    return new Dashboard(this, 'Dashboard', {
+      dashboardName: `${this.resourceIdPrefix}-dashboard`,
+      widgets: rows,
+    });
+  }
+}
@@ -0,0 +1,138 @@
+// The header CloudFront adds to the requests of the server origins, lowercase as received by the HTTP API
+export const ORIGIN_VERIFY_HEADER = 'x-origin-verify';
+
+// The length of the header values, generated without punctuation on creation and rotation
+export const ORIGIN_SECRET_LENGTH = 40;
+
+/**
+ * Creates the code of the Lambda authorizer that only accepts the requests carrying the secret origin header.
+ * The previous and the pending values of the secret are accepted as well,
+ * as CloudFront takes some minutes to deploy a rotated value to all edge locations.
+ */
+export function createOriginVerifyAuthorizerCode(): string {
+  return `const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+const crypto = require('crypto');
+const secretsManager = new SecretsManagerClient();
+
+const STAGES = ['AWSCURRENT', 'AWSPREVIOUS', 'AWSPENDING'];
+// Reload the values every minute, and at most every 5 seconds on unknown values
+const MAX_AGE = 60 * 1000;
+const MIN_AGE = 5 * 1000;
+
+let hashes = [];
+let loadedAt = 0;
+
+function hash(value) {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+async function loadHashes() {
+  const values = await Promise.all(STAGES.map(stage =>
+    secretsManager.send(new GetSecretValueCommand({ SecretId: process.env.SECRET_ID, VersionStage: stage }))
+      .then(({ SecretString }) => SecretString, () => undefined)
+  ));
+  hashes = values.filter(Boolean).map(hash);
+  loadedAt = Date.now();
+}
+
+function isValid(value) {
+  const valueHash = hash(value);
+  return hashes.some(candidate => crypto.timingSafeEqual(candidate, valueHash));
+}
+
+exports.handler = async (event) => {
+  const value = event.headers && event.headers[${JSON.stringify(ORIGIN_VERIFY_HEADER)}];
+  if (!value) return { isAuthorized: false };
+
+  const age = Date.now() - loadedAt;
+  if (age > MAX_AGE || (age > MIN_AGE && !isValid(value))) {
+    await loadHashes();
+  }
+  return { isAuthorized: isValid(value) };
+};`;
+}
+
+/**
+ * Creates the code of the rotation function of the secret origin header.
+ * Follows the four steps of the Secrets Manager rotation: the new value is deployed to the origins
+ * of all CloudFront distributions sending the current value before it becomes current.
+ */
+export function createOriginSecretRotationCode(): string {
+  return `const { SecretsManagerClient, DescribeSecretCommand, GetSecretValueCommand, GetRandomPasswordCommand, PutSecretValueCommand, UpdateSecretVersionStageCommand } = require('@aws-sdk/client-secrets-manager');
+const { CloudFrontClient, ListDistributionsCommand, GetDistributionConfigCommand, UpdateDistributionCommand } = require('@aws-sdk/client-cloudfront');
+const secretsManager = new SecretsManagerClient();
+const cloudFront = new CloudFrontClient({ region: 'us-east-1' });
+const HEADER = ${JSON.stringify(ORIGIN_VERIFY_HEADER)};
+
+async function getValue(SecretId, VersionStage, VersionId) {
+  const { SecretString } = await secretsManager.send(new GetSecretValueCommand({ SecretId, VersionStage, VersionId }));
+  return SecretString;
+}
+
+function findHeader(origin) {
+  return (origin.CustomHeaders?.Items || []).find(header => header.HeaderName.toLowerCase() === HEADER);
+}
+
+async function createSecret(secretId, token) {
+  try {
+    await getValue(secretId, 'AWSPENDING', token);
+    return;
+  } catch (err) {
+    if (err.name !== 'ResourceNotFoundException') throw err;
+  }
+  const { RandomPassword } = await secretsManager.send(new GetRandomPasswordCommand({ PasswordLength: ${ORIGIN_SECRET_LENGTH}, ExcludePunctuation: true }));
+  await secretsManager.send(new PutSecretValueCommand({ SecretId: secretId, ClientRequestToken: token, SecretString: RandomPassword, VersionStages: ['AWSPENDING'] }));
+}
+
+async function setSecret(secretId, token) {
+  const current = await getValue(secretId, 'AWSCURRENT');
+  const pending = await getValue(secretId, 'AWSPENDING', token);
+
+  let marker;
+  do {
+    const { DistributionList } = await cloudFront.send(new ListDistributionsCommand({ Marker: marker }));
+    for (const summary of DistributionList.Items || []) {
+      if (!summary.Origins.Items.some(origin => findHeader(origin)?.HeaderValue === current)) continue;
+
+      const { DistributionConfig, ETag } = await cloudFront.send(new GetDistributionConfigCommand({ Id: summary.Id }));
+      for (const origin of DistributionConfig.Origins.Items) {
+        const header = findHeader(origin);
+        if (header && header.HeaderValue === current) header.HeaderValue = pending;
+      }
+      await cloudFront.send(new UpdateDistributionCommand({ Id: summary.Id, IfMatch: ETag, DistributionConfig }));
+      console.log('Updated the origin header of the distribution ' + summary.Id);
+    }
+    marker = DistributionList.IsTruncated ? DistributionList.NextMarker : undefined;
+  } while (marker);
+}
+
+async function finishSecret(secretId, token, versions) {
+  const currentVersion = Object.keys(versions).find(version => versions[version].includes('AWSCURRENT'));
+  if (currentVersion === token) return;
+  await secretsManager.send(new UpdateSecretVersionStageCommand({
+    SecretId: secretId,
+    VersionStage: 'AWSCURRENT',
+    MoveToVersionId: token,
+    RemoveFromVersionId: currentVersion,
+  }));
+}
+
+exports.handler = async (event) => {
+  const { SecretId, ClientRequestToken, Step } = event;
+  const { VersionIdsToStages } = await secretsManager.send(new DescribeSecretCommand({ SecretId }));
+  const stages = VersionIdsToStages[ClientRequestToken] || [];
+  if (stages.includes('AWSCURRENT')) return;
+  if (!stages.includes('AWSPENDING')) {
+    throw new Error('The version ' + ClientRequestToken + ' of the secret is not pending rotation.');
+  }
+
+  switch (Step) {
+    case 'createSecret': return createSecret(SecretId, ClientRequestToken);
+    case 'setSecret': return setSecret(SecretId, ClientRequestToken);
+    // The authorizer accepts the pending value, so there is nothing to test before the value becomes current
+    case 'testSecret': return;
+    case 'finishSecret': return finishSecret(SecretId, ClientRequestToken, VersionIdsToStages);
+    default: throw new Error('Unknown rotation step ' + Step);
+  }
+};`;
+}
@@ -0,0 +1,225 @@
+import path from 'path';
+import { Aws, Duration, RemovalPolicy, SecretValue } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { PolicyStatement, Effect } from 'aws-cdk-lib/aws-iam';
+import { Architecture } from 'aws-cdk-lib/aws-lambda';
+import { RetentionDays, LogGroup } from 'aws-cdk-lib/aws-logs';
+import { Pipeline, PipelineType, Artifact } from 'aws-cdk-lib/aws-codepipeline';
+import { GitHubSourceAction, GitHubTrigger, CodeBuildAction } from 'aws-cdk-lib/aws-codepipeline-actions';
+import { PipelineProject, BuildSpec, LinuxBuildImage, LinuxArmBuildImage, ComputeType } from 'aws-cdk-lib/aws-codebuild';
+import { NuxtProps } from '../stack/NuxtProps';
+
+export interface DeployTargetProps {
+  // The IDs of the stacks deployed with the CDK CLI, e.g. the ID of the NuxtStack. The stacks they depend on are deployed as well.
+  stackIds: string[];
+}
+
+type PipelineProps = NuxtProps & DeployTargetProps;
+
+export class PipelineConstruct extends Construct {
+  private readonly resourceIdPrefix: string;
+  private readonly rootDir: string;
+  public pipeline: Pipeline;
+
+  constructor(scope: Construct, id: string, nuxtProps: NuxtProps, deployTargetProps: DeployTargetProps) {
+    super(scope, id);
+
+    // Merge props
+    const props: PipelineProps = { ...nuxtProps, ...deployTargetProps };
+
+    // Check mandatory source properties
+    if (!props.sourceProps?.owner || !props.sourceProps?.repo || !props.sourceProps?.githubAccessTokenArn) {
+      throw new Error('The pipeline requires sourceProps.owner, sourceProps.repo and sourceProps.githubAccessTokenArn.');
+    }
+    if (!props.stackIds.length && !props.buildProps?.deployCommand) {
+      throw new Error('The pipeline requires the IDs of the stacks to deploy or buildProps.deployCommand.');
+    }
+
+    // Set the resource prefix
+    this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+    this.rootDir = props.rootDir || '.';
+
+    this.pipeline = this.createPipeline(props);
+  }
+
+  /**
+   * Creates the pipeline with a source, build and deploy stage.
+   *
+   * @private
+   */
+  private createPipeline(props: PipelineProps): Pipeline {
+    const sourceOutput = new Artifact('SourceOutput');
+    const buildOutput = new Artifact('BuildOutput');
+
+    const pipeline = new Pipeline(this, 'Pipeline', {
+      pipelineName: `${this.resourceIdPrefix}-pipeline`,
+      pipelineType: PipelineType.V2,
+      restartExecutionOnUpdate: false,
+      crossAccountKeys: false,
+    });
+    pipeline.artifactBucket.applyRemovalPolicy(RemovalPolicy.DESTROY);
+
+    pipeline.addStage({
+      stageName: 'Source',
+      actions: [
+        new GitHubSourceAction({
+          actionName: 'GitHub',
+          owner: props.sourceProps?.owner as string,
+          repo: props.sourceProps?.repo as string,
+          branch: props.sourceProps?.branchOrRef || 'main',
+          oauthToken: SecretValue.secretsManager(props.sourceProps?.githubAccessTokenArn as string),
+          trigger: GitHubTrigger.WEBHOOK,
+          output: sourceOutput,
+        }),
+      ],
+    });
+
+    pipeline.addStage({
+      stageName: 'Build',
+      actions: [
+        new CodeBuildAction({
+          actionName: 'Build',
+          project: this.createBuildProject(props),
+          input: sourceOutput,
+          outputs: [buildOutput],
+        }),
+      ],
+    });
+
+    pipeline.addStage({
+      stageName: 'Deploy',
+      actions: [
+        new CodeBuildAction({
+          actionName: 'Deploy',
+          project: this.createDeployProject(props),
+          input: buildOutput,
+        }),
+      ],
+    });
+
+    return pipeline;
+  }
+
+  /**
+   * Creates the CodeBuild project that installs the dependencies and runs the Nuxt build in the root directory.
+   * The whole repository with the build output, without the dependencies of the project, is passed to the deploy stage.
+   * The dependencies traced by Nitro into .output/server/node_modules are kept, as they are deployed with the function.
+   *
+   * @private
+   */
+  private createBuildProject(props: PipelineProps): PipelineProject {
+    return new PipelineProject(this, 'BuildProject', {
+      projectName: `${this.resourceIdPrefix}-build`,
+      description: `Builds the ${this.resourceIdPrefix} app.`,
+      environment: this.getBuildEnvironment(props),
+      timeout: Duration.minutes(30),
+      logging: {
+        cloudWatch: {
+          logGroup: new LogGroup(this, 'BuildLogGroup', {
+            retention: RetentionDays.ONE_WEEK,
+          }),
+        },
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          install: {
+            'runtime-versions': {
+              nodejs: props.buildProps?.nodeVersion || '20',
+            },
+            commands: [
+              `cd ${this.rootDir}`,
+              props.buildProps?.installCommand || 'npm ci',
+            ],
+          },
+          build: {
+            commands: [
+              `cd ${this.rootDir}`,
+              props.buildProps?.buildCommand || 'npm run build',
+            ],
+          },
+        },
+        artifacts: {
+          files: ['**/*'],
+          'exclude-paths': [...new Set(['node_modules/**/*', path.posix.join(this.rootDir, 'node_modules/**/*')])],
+        },
+      }),
+    });
+  }
+
+  /**
+   * Creates the CodeBuild project that deploys the stacks with the CDK CLI at the root of the repository.
+   * The CDK CLI synthesizes the stacks from the build output, so the function code, the assets, the prerendered pages
+   * and the failover region are deployed like on `cdk deploy`, including the gradual deployments and their rollbacks.
+   *
+   * @private
+   */
+  private createDeployProject(props: PipelineProps): PipelineProject {
+    const project = new PipelineProject(this, 'DeployProject', {
+      projectName: `${this.resourceIdPrefix}-deploy`,
+      description: `Deploys the ${this.resourceIdPrefix} app.`,
+      // Container image functions are built with Docker
+      environment: { ...this.getBuildEnvironment(props), privileged: !!props.serverProps?.dockerFile },
+      // The gradual deployments shift the traffic while the stack deploys
+      timeout: Duration.minutes(60),
+      logging: {
+        cloudWatch: {
+          logGroup: new LogGroup(this, 'DeployLogGroup', {
+            retention: RetentionDays.ONE_WEEK,
+          }),
+        },
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          install: {
+            'runtime-versions': {
+              nodejs: props.buildProps?.nodeVersion || '20',
+            },
+            commands: [
+              props.buildProps?.installCommand || 'npm ci',
+            ],
+          },
+          build: {
+            commands: [
+              props.buildProps?.deployCommand
+                || `npx cdk deploy --require-approval never --app "npx tsx stack/index.ts" ${props.stackIds.join(' ')}`,
+            ],
+          },
+        },
+      }),
+    });
+
+    // Allow the CDK CLI to assume the roles of the bootstrap stack to look up, publish and deploy
+    project.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['sts:AssumeRole'],
+      resources: [`arn:aws:iam::${Aws.ACCOUNT_ID}:role/cdk-*`],
+      conditions: {
+        StringEquals: {
+          'iam:ResourceTag/aws-cdk:bootstrap-role': ['lookup', 'file-publishing', 'image-publishing', 'deploy'],
+        },
+      },
+    }));
+
+    return project;
+  }
+
+  /**
+   * Resolves the CodeBuild environment matching the architecture of the Lambda function,
+   * so native dependencies are built for the right platform.
+   *
+   * @private
+   */
+  private getBuildEnvironment(props: PipelineProps) {
+    const isX86 = props.serverProps?.architecture?.name === Architecture.X86_64.name;
+
+    return {
+      buildImage: isX86
+        ? LinuxBuildImage.STANDARD_7_0
+        : LinuxArmBuildImage.AMAZON_LINUX_2023_STANDARD_3_0,
+      computeType: isX86 ? ComputeType.MEDIUM : ComputeType.LARGE,
+      privileged: false,
+    };
+  }
+}
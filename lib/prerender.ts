@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+
+// The SPA fallback pages written by `nuxt generate` are not prerendered routes
+const FALLBACK_PAGES = ['200.html', '404.html'];
+
+// CloudFront Functions are limited to 10 KB of code
+const MAX_INLINE_CODE_SIZE = 8 * 1024;
+
+/**
+ * Lists the prerendered HTML pages of the public output directory.
+ * Maps every route URI, with and without trailing slash, to the key of its object in the S3 bucket.
+ *
+ * @param publicDir - The public output directory, e.g. .output/public
+ */
+export function listPrerenderedPages(publicDir: string): Record<string, string> {
+  const pages: Record<string, string> = {};
+
+  for (const file of listHtmlFiles(publicDir, publicDir)) {
+    if (FALLBACK_PAGES.includes(file)) continue;
+
+    const key = '/' + file;
+    if (file === 'index.html') {
+      pages['/'] = key;
+    } else if (file.endsWith('/index.html')) {
+      const route = '/' + file.slice(0, -'/index.html'.length);
+      pages[route] = key;
+      pages[route + '/'] = key;
+    } else {
+      pages['/' + file.slice(0, -'.html'.length)] = key;
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Creates the code of the CloudFront Function that routes the requests of prerendered pages to the S3 bucket origin.
+ * Small page tables are inlined into the code, large tables are read from the KeyValueStore.
+ *
+ * @param originId - The ID of the S3 bucket origin.
+ * @param pages - The prerendered pages, or undefined to read them from the KeyValueStore.
+ */
+export function createPrerenderFunctionCode(originId: string, pages?: Record<string, string>): string {
+  const lookup = pages
+    ? `var pages = ${JSON.stringify(pages)};
+
+async function getPage(uri) {
+  return pages[uri];
+}`
+    : `var kvs = cf.kvs();
+
+async function getPage(uri) {
+  try {
+    return await kvs.get(uri);
+  } catch (err) {
+    return undefined;
+  }
+}`;
+
+  return `import cf from 'cloudfront';
+
+${lookup}
+
+async function handler(event) {
+  var request = event.request;
+  var key = await getPage(request.uri);
+  // Form posts to a prerendered page are handled by the server
+  if (key && (request.method === 'GET' || request.method === 'HEAD')) {
+    request.uri = key;
+    cf.selectRequestOriginById(${JSON.stringify(originId)});
+  }
+  return request;
+}`;
+}
+
+/**
+ * Whether the page table fits into the code of a CloudFront Function.
+ *
+ * @param reservedSize - The size of the other code composed into the function.
+ */
+export function canInlinePages(pages: Record<string, string>, reservedSize = 0): boolean {
+  return Buffer.byteLength(JSON.stringify(pages)) < MAX_INLINE_CODE_SIZE - reservedSize;
+}
+
+/**
+ * Lists the HTML files of the directory recursively, relative to the root directory.
+ *
+ * @private
+ */
+function listHtmlFiles(dir: string, rootDir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      // The build assets and payloads are never prerendered pages
+      return entry.name === '_nuxt' ? [] : listHtmlFiles(entryPath, rootDir);
+    }
+    return entry.name.endsWith('.html') ? [path.relative(rootDir, entryPath).split(path.sep).join('/')] : [];
+  });
+}
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { NuxtProps } from '../stack/NuxtProps';
+import { hasHostedZone } from './domains';
+
+// The resource prefix is truncated to 42 characters to keep the bucket and function names under the AWS limits
+const MAX_PREFIX_LENGTH = 42;
+
+// The length of the hash appended to shortened preview names
+const HASH_LENGTH = 6;
+
+/**
+ * Derives the props of a preview environment from the props of the app.
+ * The preview ID is appended to the environment, so every preview gets its own resources.
+ * Previews share the hosted zone and the certificates of the app, or issue their own certificates without them. They skip the costly features:
+ * no provisioned concurrency, no keep-warm, no gradual deployments, no failover and no pipeline.
+ *
+ * @param props - The props of the app with the `preview` property.
+ */
+export function getPreviewProps(props: NuxtProps): NuxtProps {
+  if (!props.preview?.id) {
+    throw new Error('The preview requires preview.id, e.g. the pull request number or the branch name.');
+  }
+
+  const name = getPreviewName(props);
+  const previewDomain = props.preview.domain || (props.domain && `preview.${props.domain}`);
+
+  // The certificates of the app must be issued for the wildcard domain of the previews as well
+  const useAppCertificates = props.preview.useAppCertificates ?? true;
+  if (previewDomain && !(useAppCertificates && props.globalCertificateArn) && !hasHostedZone(props)) {
+    throw new Error(`The preview domain requires the globalCertificateArn of the app, covering *.${previewDomain}, or the hostedZoneId or hostedZoneName to issue the certificates of the preview.`);
+  }
+
+  return {
+    ...props,
+    environment: `${props.environment}-${name}`,
+    domain: previewDomain ? `${name}.${previewDomain}` : undefined,
+    globalCertificateArn: useAppCertificates ? props.globalCertificateArn : undefined,
+    regionalCertificateArn: useAppCertificates ? props.regionalCertificateArn : undefined,
+    // The aliases belong to the app, the preview is only served at its own domain
+    domainAliases: undefined,
+    edgeRules: props.edgeRules && { ...props.edgeRules, canonicalHost: undefined },
+    serverProps: props.serverProps && {
+      ...props.serverProps,
+      // Load the env file of the original environment
+      envFile: props.serverProps.envFile === true ? `.env.${props.environment}` : props.serverProps.envFile,
+      provisionedConcurrency: undefined,
+      provisionedConcurrencyScaling: undefined,
+      reservedConcurrency: undefined,
+      keepWarm: false,
+      deployment: undefined,
+      // The previews share the VPC endpoints of the app, as the private DNS names of an endpoint are unique within a VPC
+      vpc: props.serverProps.vpc && { ...props.serverProps.vpc, endpoints: undefined },
+    },
+    failover: undefined,
+    sourceProps: undefined,
+  };
+}
+
+/**
+ * Converts the preview ID into a DNS label that fits into the resource prefix.
+ * Long IDs, e.g. branch names, are shortened and suffixed with a hash of the ID to stay unique.
+ *
+ * @private
+ */
+function getPreviewName(props: NuxtProps): string {
+  const id = String(props.preview?.id);
+  const slug = id.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  const maxLength = MAX_PREFIX_LENGTH - `${props.application}-${props.service}-${props.environment}-`.length;
+
+  if (maxLength < HASH_LENGTH + 2) {
+    throw new Error('The application, service and environment names are too long to add a preview ID to the resource names.');
+  }
+  if (slug && slug.length <= maxLength) {
+    return slug;
+  }
+
+  const hash = createHash('sha256').update(id).digest('hex').substring(0, HASH_LENGTH);
+  const prefix = slug.substring(0, maxLength - HASH_LENGTH - 1).replace(/-+$/, '');
+  return prefix ? `${prefix}-${hash}` : hash;
+}
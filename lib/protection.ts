@@ -0,0 +1,142 @@
+import { type ViewerRequestStep } from './viewer-request';
+
+/**
+ * Converts an IPv4 or IPv6 CIDR range to the prefix of its address bits, e.g. 10.0.0.0/8 to 00001010.
+ */
+export function toCidrPrefix(cidr: string): { v6: boolean; prefix: string; } {
+  const [address, length] = cidr.split('/');
+  const v6 = address.includes(':');
+  const bits = toAddressBits(address);
+  if (bits === undefined) {
+    throw new Error(`Invalid IP address range ${cidr}.`);
+  }
+  return { v6, prefix: bits.substring(0, length === undefined ? bits.length : parseInt(length, 10)) };
+}
+
+// Converts an IPv4 or IPv6 address to a string of its bits in the CloudFront Function
+const ADDRESS_BITS_CODE = `function toAddressBits(ip) {
+  var groups, size, radix;
+  if (ip.indexOf(':') === -1) {
+    groups = ip.split('.');
+    size = 8;
+    radix = 10;
+    if (groups.length !== 4) return undefined;
+  } else {
+    var halves = ip.split('::');
+    var head = halves[0] ? halves[0].split(':') : [];
+    var tail = halves.length > 1 && halves[1] ? halves[1].split(':') : [];
+    groups = head.slice();
+    for (var i = head.length + tail.length; i < 8; i++) groups.push('0');
+    groups = groups.concat(tail);
+    size = 16;
+    radix = 16;
+    if (groups.length !== 8) return undefined;
+  }
+  var bits = '';
+  for (var j = 0; j < groups.length; j++) {
+    var value = parseInt(groups[j], radix);
+    if (isNaN(value)) return undefined;
+    var group = value.toString(2);
+    while (group.length < size) group = '0' + group;
+    bits += group;
+  }
+  return bits;
+}`;
+
+/**
+ * Converts an IPv4 or IPv6 address to a string of its bits, like the CloudFront Function does.
+ *
+ * @private
+ */
+function toAddressBits(ip: string): string | undefined {
+  let groups: string[];
+  if (!ip.includes(':')) {
+    groups = ip.split('.');
+    if (groups.length !== 4) return;
+  } else {
+    const [head, tail] = ip.split('::').map(half => half ? half.split(':') : []);
+    groups = tail ? [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail] : head;
+    if (groups.length !== 8) return;
+  }
+
+  const size = groups.length === 4 ? 8 : 16;
+  const values = groups.map(group => parseInt(group, size === 8 ? 10 : 16));
+  if (values.some(value => isNaN(value))) return;
+  return values.map(value => value.toString(2).padStart(size, '0')).join('');
+}
+
+/**
+ * Creates the viewer request step that restricts the access to the distribution.
+ * Requests from the allowed IP ranges pass, all other requests require the basic auth credentials, if configured.
+ * The credentials are compared by the SHA-256 hash of the Authorization header, so they never appear in the code.
+ *
+ * @param options.credentialsHash - The hex SHA-256 hash of the `Basic <base64>` Authorization header.
+ * @param options.allowIps - The IPv4 and IPv6 CIDR ranges allowed without credentials.
+ * @param options.realm - The realm of the basic auth prompt.
+ */
+export function createProtectionStep(options: { credentialsHash?: string; allowIps?: string[]; realm?: string; }): ViewerRequestStep {
+  const ranges = (options.allowIps || []).map(toCidrPrefix);
+
+  return {
+    name: 'restrict',
+    imports: ["import crypto from 'crypto';"],
+    code: `var allowedRanges = ${JSON.stringify(ranges)};
+var credentialsHash = ${JSON.stringify(options.credentialsHash || '')};
+var realm = ${JSON.stringify(options.realm || 'Restricted')};
+
+${ADDRESS_BITS_CODE}
+
+function isAllowedIp(ip) {
+  var bits = toAddressBits(ip);
+  if (!bits) return false;
+  for (var i = 0; i < allowedRanges.length; i++) {
+    var range = allowedRanges[i];
+    if (range.v6 === (ip.indexOf(':') !== -1) && bits.indexOf(range.prefix) === 0) return true;
+  }
+  return false;
+}
+
+function restrict(event) {
+  if (allowedRanges.length && isAllowedIp(event.viewer.ip)) return;
+  if (!credentialsHash) {
+    return { statusCode: 403, statusDescription: 'Forbidden' };
+  }
+  var authorization = event.request.headers.authorization;
+  if (authorization && crypto.createHash('sha256').update(authorization.value).digest('hex') === credentialsHash) return;
+  return {
+    statusCode: 401,
+    statusDescription: 'Unauthorized',
+    headers: { 'www-authenticate': { value: 'Basic realm="' + realm + '", charset="UTF-8"' } },
+  };
+}`,
+  };
+}
+
+/**
+ * Creates the code of the custom resource handler that hashes the basic auth credentials of the secret.
+ * The secret holds either JSON with `username` and `password` or plaintext `username:password`.
+ */
+export function createCredentialsHashHandlerCode(): string {
+  return `const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+const crypto = require('crypto');
+const secretsManager = new SecretsManagerClient();
+
+exports.handler = async (event) => {
+  if (event.RequestType === 'Delete') return {};
+
+  const { SecretString } = await secretsManager.send(new GetSecretValueCommand({ SecretId: event.ResourceProperties.SecretId }));
+  let credentials = SecretString;
+  try {
+    const secret = JSON.parse(SecretString);
+    if (secret.username !== undefined) credentials = secret.username + ':' + secret.password;
+  } catch (err) {
+    // plaintext username:password
+  }
+
+  const authorization = 'Basic ' + Buffer.from(credentials).toString('base64');
+  return {
+    PhysicalResourceId: event.PhysicalResourceId || event.LogicalResourceId,
+    Data: { Hash: crypto.createHash('sha256').update(authorization).digest('hex') },
+  };
+};`;
+}
@@ -0,0 +1,396 @@
+import fs from 'fs';
+import path from 'path';
+import { type ViewerRequestStep } from './viewer-request';
+import { listPrerenderedPages } from './prerender';
+
+// The optional file written to the Nitro output directory by the hooks of the build, see the Route Rules section of the README
+export const ROUTE_MANIFEST_FILE = 'route-manifest.json';
+
+// The runtime config inlined by Nitro into the server build as JSON, including the normalized route rules
+const INLINE_RUNTIME_CONFIG = /\b_inlineRuntimeConfig(?:\$\d+)?\s*=\s*(?=\{)/;
+
+/**
+ * A route rule of the Nitro build output, normalized by Nitro.
+ * @see https://nitro.build/config#routerules
+ */
+export interface NitroRouteRule {
+  cache?: false | { swr?: boolean; maxAge?: number; staleMaxAge?: number; };
+  swr?: boolean | number;
+  isr?: boolean | number;
+  prerender?: boolean;
+  redirect?: { to: string; statusCode?: number; _redirectStripBase?: string; };
+  headers?: Record<string, string>;
+}
+
+/**
+ * A route prerendered by Nitro and the file it was written to, relative to the public output directory.
+ */
+export interface NitroPrerenderedRoute {
+  route: string;
+  fileName: string;
+}
+
+/**
+ * The route rules and the prerendered routes of the build, written by the Nitro hooks `prerender:route` and `compiled`,
+ * or read from the server build and the public output directory.
+ */
+export interface NitroRouteManifest {
+  routeRules: Record<string, NitroRouteRule>;
+  prerenderedRoutes: NitroPrerenderedRoute[];
+}
+
+/**
+ * The build info written by Nitro to `.output/nitro.json`.
+ */
+export interface NitroBuildInfo {
+  date: string;
+  preset: string;
+  versions: { nitro: string; };
+  config?: {
+    awsLambda?: { streaming?: boolean; };
+  };
+}
+
+/**
+ * Reads the build info written by Nitro to `.output/nitro.json`.
+ *
+ * @param outputDir - The Nitro output directory, e.g. .output
+ */
+export function readNitroBuildInfo(outputDir: string): NitroBuildInfo {
+  const buildInfoPath = path.join(outputDir, 'nitro.json');
+  const buildInfo = readJsonFile(buildInfoPath, 'Run the Nuxt build before the deployment.');
+
+  if (!isRecord(buildInfo) || typeof buildInfo.preset !== 'string' || !isRecord(buildInfo.versions) || typeof buildInfo.versions.nitro !== 'string') {
+    throw new Error(`Invalid Nitro build info ${buildInfoPath}: the preset and the Nitro version are missing.`);
+  }
+
+  const awsLambda = isRecord(buildInfo.config) && isRecord(buildInfo.config.awsLambda) ? buildInfo.config.awsLambda : {};
+  return {
+    date: String(buildInfo.date),
+    preset: buildInfo.preset,
+    versions: { nitro: buildInfo.versions.nitro },
+    config: { awsLambda: { streaming: awsLambda.streaming === true } },
+  };
+}
+
+/**
+ * Checks that the build targets the Lambda function of the stack,
+ * as the route rules of another preset or a mismatched streaming mode would not be served.
+ *
+ * @param streaming - Whether the function streams its responses.
+ */
+export function checkNitroBuildInfo(buildInfo: NitroBuildInfo, streaming: boolean): void {
+  if (!buildInfo.preset.replace(/_/g, '-').startsWith('aws-lambda')) {
+    throw new Error(`The Nitro build uses the ${buildInfo.preset} preset. Set nitro.preset to aws-lambda in your nuxt.config.ts.`);
+  }
+  if (!!buildInfo.config?.awsLambda?.streaming !== streaming) {
+    throw new Error(streaming
+      ? 'serverProps.streaming requires nitro.awsLambda.streaming in your nuxt.config.ts.'
+      : 'The Nitro build streams the responses. Set serverProps.streaming with the functionUrl origin, or disable nitro.awsLambda.streaming.');
+  }
+}
+
+/**
+ * Reads the route rules and the prerendered routes from the route manifest of the build.
+ * Without the manifest, the route rules are read from the runtime config of the server build
+ * and the prerendered routes from the HTML pages of the public output directory.
+ *
+ * @param outputDir - The Nitro output directory, e.g. .output
+ * @param serverDir - The server output directory, e.g. .output/server
+ * @param publicDir - The public output directory, e.g. .output/public
+ */
+export function readRouteManifest(outputDir: string, serverDir: string, publicDir: string): NitroRouteManifest {
+  const manifestPath = path.join(outputDir, ROUTE_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return {
+      routeRules: readServerRouteRules(serverDir),
+      prerenderedRoutes: listPrerenderedRoutes(publicDir),
+    };
+  }
+  const manifest = readJsonFile(manifestPath, 'Run the Nuxt build before the deployment.');
+
+  if (!isRecord(manifest) || !isRecord(manifest.routeRules) || !Array.isArray(manifest.prerenderedRoutes)) {
+    throw new Error(`Invalid route manifest ${manifestPath}: routeRules or prerenderedRoutes are missing.`);
+  }
+
+  const routeRules: Record<string, NitroRouteRule> = {};
+  for (const [route, rule] of Object.entries(manifest.routeRules)) {
+    routeRules[route] = parseRouteRule(route, rule);
+  }
+
+  const prerenderedRoutes = manifest.prerenderedRoutes.map(entry => {
+    if (!isRecord(entry) || typeof entry.route !== 'string' || typeof entry.fileName !== 'string') {
+      throw new Error(`Invalid prerendered route ${JSON.stringify(entry)} in ${manifestPath}.`);
+    }
+    return { route: entry.route, fileName: entry.fileName };
+  });
+
+  return { routeRules, prerenderedRoutes };
+}
+
+/**
+ * Reads the route rules from the runtime config that Nitro inlines into the server build.
+ *
+ * @param serverDir - The server output directory, e.g. .output/server
+ */
+export function readServerRouteRules(serverDir: string): Record<string, NitroRouteRule> {
+  const hint = `Add the Nitro hooks of the Route Rules section of the README to your nuxt.config.ts to write the ${ROUTE_MANIFEST_FILE}.`;
+  if (!fs.existsSync(serverDir)) {
+    throw new Error(`Missing ${serverDir}. Run the Nuxt build before the deployment.`);
+  }
+
+  for (const file of listServerFiles(serverDir)) {
+    const code = fs.readFileSync(file, 'utf8');
+    const match = INLINE_RUNTIME_CONFIG.exec(code);
+    if (!match) continue;
+
+    const runtimeConfig = parseJsonObjectAt(code, match.index + match[0].length);
+    if (!isRecord(runtimeConfig) || !isRecord(runtimeConfig.nitro)) {
+      throw new Error(`Could not read the runtime config of the server build ${file}, e.g. if it is minified. ${hint}`);
+    }
+
+    const routeRules: Record<string, NitroRouteRule> = {};
+    for (const [route, rule] of Object.entries(isRecord(runtimeConfig.nitro.routeRules) ? runtimeConfig.nitro.routeRules : {})) {
+      routeRules[route] = parseRouteRule(route, rule);
+    }
+    return routeRules;
+  }
+
+  throw new Error(`Could not find the runtime config in the server build ${serverDir}. ${hint}`);
+}
+
+/**
+ * Lists the routes of the HTML pages prerendered into the public output directory.
+ *
+ * @param publicDir - The public output directory, e.g. .output/public
+ */
+export function listPrerenderedRoutes(publicDir: string): NitroPrerenderedRoute[] {
+  if (!fs.existsSync(publicDir)) return [];
+
+  return Object.entries(listPrerenderedPages(publicDir))
+    .filter(([route]) => route === '/' || !route.endsWith('/'))
+    .map(([route, key]) => ({ route, fileName: key }));
+}
+
+/**
+ * Whether the route rule applies to all routes, like the default behavior.
+ */
+export function isRootRoute(route: string): boolean {
+  return route === '/**' || route === '/*';
+}
+
+/**
+ * Converts a route rule path to the CloudFront path patterns.
+ * CloudFront's `*` already matches across path segments, but `/blog/*` does not match `/blog` itself like `/blog/**`.
+ */
+export function toPathPatterns(route: string): string[] {
+  const pattern = route.replace(/\*\*/g, '*');
+  return route.endsWith('/**') ? [route.slice(0, -3), pattern] : [pattern];
+}
+
+/**
+ * Whether the CloudFront path pattern matches the path, e.g. to find the path patterns shadowed by a behavior evaluated before them.
+ * CloudFront path patterns match `*` with any characters and `?` with a single character.
+ */
+export function matchesPathPattern(pattern: string, routePath: string): boolean {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp('^' + source + '$').test(routePath);
+}
+
+/**
+ * Converts a route rule path to a regular expression source for CloudFront Functions.
+ */
+export function toRouteRegExp(route: string): string {
+  const escaped = route.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = escaped
+    .split('/**').map(part => part.replace(/\*/g, '[^/]*'))
+    .join('/**')
+    .replace(/\/\*\*$/, '(/.*)?')
+    .replace(/\/\*\*/g, '/.*');
+  return '^' + pattern + '$';
+}
+
+/**
+ * Sorts the route rule paths from the most to the least specific,
+ * as CloudFront evaluates the behaviors in order.
+ */
+export function sortBySpecificity(routes: string[]): string[] {
+  const literalLength = (route: string) => route.includes('*') ? route.indexOf('*') : route.length + 1;
+  return [...routes].sort((a, b) => literalLength(b) - literalLength(a));
+}
+
+/**
+ * Whether the most specific route rule matching the path prerenders it, following the merge of the Nitro route rules.
+ */
+export function isPrerenderedByRule(routeRules: Record<string, NitroRouteRule>, routePath: string): boolean {
+  const route = sortBySpecificity(Object.keys(routeRules))
+    .find(route => routeRules[route].prerender !== undefined && new RegExp(toRouteRegExp(route)).test(routePath));
+  return !!route && !!routeRules[route].prerender;
+}
+
+/**
+ * Creates the viewer request step that redirects the requests matching the `redirect` route rules, most specific first.
+ * Follows the Nitro semantics: a target ending with `/**` receives the request path without the stripped base.
+ */
+export function createRouteRedirectsStep(routeRules: Record<string, NitroRouteRule>): ViewerRequestStep {
+  const redirects = sortBySpecificity(Object.keys(routeRules)).flatMap(route => {
+    const redirect = routeRules[route].redirect;
+    return redirect
+      ? [{
+          pattern: toRouteRegExp(route),
+          to: redirect.to,
+          statusCode: redirect.statusCode || 307,
+          stripBase: redirect._redirectStripBase || '',
+        }]
+      : [];
+  });
+
+  return {
+    name: 'applyRouteRedirects',
+    code: `var routeRedirects = ${JSON.stringify(redirects)};
+
+function applyRouteRedirects(event) {
+  var request = event.request;
+  for (var i = 0; i < routeRedirects.length; i++) {
+    var redirect = routeRedirects[i];
+    if (!new RegExp(redirect.pattern).test(request.uri)) continue;
+
+    var location = redirect.to;
+    if (location.endsWith('/**')) {
+      var targetPath = request.uri.slice(redirect.stripBase.length);
+      location = location.slice(0, -3) + (targetPath.startsWith('/') ? targetPath : '/' + targetPath);
+    }
+    var query = Object.keys(request.querystring).map(function (key) {
+      return key + '=' + request.querystring[key].value;
+    }).join('&');
+    if (query) {
+      location += (location.includes('?') ? '&' : '?') + query;
+    }
+
+    return {
+      statusCode: redirect.statusCode,
+      statusDescription: 'Redirect',
+      headers: { location: { value: location } },
+    };
+  }
+}`,
+  };
+}
+
+/**
+ * Validates the fields of a route rule used by the stack. Other fields, e.g. `ssr` or `proxy`, are ignored.
+ *
+ * @private
+ */
+function parseRouteRule(route: string, value: unknown): NitroRouteRule {
+  const invalid = (field: string) => new Error(`Invalid ${field} of the route rule ${route} in the route manifest.`);
+  if (!isRecord(value)) throw invalid('value');
+
+  const rule: NitroRouteRule = {};
+  if (value.cache !== undefined) {
+    if (value.cache === false) {
+      rule.cache = false;
+    } else if (isRecord(value.cache) && isOptional(value.cache.swr, 'boolean') && isOptional(value.cache.maxAge, 'number') && isOptional(value.cache.staleMaxAge, 'number')) {
+      rule.cache = { swr: value.cache.swr, maxAge: value.cache.maxAge, staleMaxAge: value.cache.staleMaxAge };
+    } else {
+      throw invalid('cache');
+    }
+  }
+  for (const field of ['swr', 'isr'] as const) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) continue;
+    if (typeof fieldValue !== 'boolean' && typeof fieldValue !== 'number') throw invalid(field);
+    rule[field] = fieldValue;
+  }
+  if (value.prerender !== undefined) {
+    if (typeof value.prerender !== 'boolean') throw invalid('prerender');
+    rule.prerender = value.prerender;
+  }
+  if (value.redirect !== undefined) {
+    const redirect = value.redirect;
+    if (!isRecord(redirect) || typeof redirect.to !== 'string' || !isOptional(redirect.statusCode, 'number') || !isOptional(redirect._redirectStripBase, 'string')) {
+      throw invalid('redirect');
+    }
+    rule.redirect = { to: redirect.to, statusCode: redirect.statusCode, _redirectStripBase: redirect._redirectStripBase };
+  }
+  if (value.headers !== undefined) {
+    if (!isRecord(value.headers)) throw invalid('headers');
+    rule.headers = {};
+    for (const [name, headerValue] of Object.entries(value.headers)) {
+      if (typeof headerValue !== 'string' && typeof headerValue !== 'number') throw invalid(`header ${name}`);
+      rule.headers[name] = String(headerValue);
+    }
+  }
+  return rule;
+}
+
+/**
+ * Lists the code files of the server build, without the traced dependencies.
+ *
+ * @private
+ */
+function listServerFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === 'node_modules' ? [] : listServerFiles(entryPath);
+    }
+    return /\.[cm]?js$/.test(entry.name) ? [entryPath] : [];
+  });
+}
+
+/**
+ * Parses the JSON object starting at the index of the code, e.g. the value of a variable.
+ * Returns undefined if the object is not valid JSON.
+ *
+ * @private
+ */
+function parseJsonObjectAt(code: string, start: number): unknown {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(code.slice(start, i + 1));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads and parses a JSON file of the build output.
+ *
+ * @param hint - How to create the missing file.
+ * @private
+ */
+function readJsonFile(filePath: string, hint: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Missing ${filePath}. ${hint}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * @private
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @private
+ */
+function isOptional<T extends 'boolean' | 'number' | 'string'>(value: unknown, type: T): value is (T extends 'boolean' ? boolean : T extends 'number' ? number : string) | undefined {
+  return value === undefined || typeof value === type;
+}
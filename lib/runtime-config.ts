@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { type RuntimeConfigValue } from '../stack/NuxtProps';
+
+// Lambda limits the total size of the environment variables to 4 KB
+export const MAX_ENVIRONMENT_SIZE = 4 * 1024;
+
+/**
+ * Converts a Nuxt runtimeConfig key path to the environment variable read by Nitro,
+ * e.g. `apiSecret` to NUXT_API_SECRET and `public.apiBase` to NUXT_PUBLIC_API_BASE.
+ */
+export function toEnvName(keyPath: string | string[]): string {
+  const keys = typeof keyPath === 'string' ? keyPath.split('.') : keyPath;
+  const words = keys.flatMap(key => key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean));
+  return ['NUXT', ...words].join('_').toUpperCase();
+}
+
+/**
+ * Maps the runtimeConfig to the environment variables read by Nitro.
+ * Nested objects are flattened, as Nitro applies the variables per key. Arrays are passed as JSON.
+ *
+ * @param runtimeConfig - The runtimeConfig, with the public keys under `public`.
+ */
+export function toEnvVariables(runtimeConfig: { [key: string]: RuntimeConfigValue }, keyPath: string[] = []): Record<string, string> {
+  return Object.entries(runtimeConfig).reduce<Record<string, string>>((variables, [key, value]) => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      return { ...variables, ...toEnvVariables(value, [...keyPath, key]) };
+    }
+    const envValue = typeof value === 'string' ? value : JSON.stringify(value);
+    return { ...variables, [toEnvName([...keyPath, key])]: envValue };
+  }, {});
+}
+
+/**
+ * Reads the variables of a dotenv file, e.g. .env.production
+ * Supports comments, `export` prefixes and single or double quoted values.
+ *
+ * @param filePath - The path to the file.
+ */
+export function readEnvFile(filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Missing environment file ${filePath}.`);
+  }
+
+  const variables: Record<string, string> = {};
+  const pattern = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*("(?:\\.|[^"\\])*"|'[^']*'|[^#\r\n]*)/;
+
+  for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    const match = line.match(pattern);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    const value = rawValue.trim();
+    if (value.startsWith('"')) {
+      variables[key] = value.slice(1, -1).replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+    } else if (value.startsWith("'")) {
+      variables[key] = value.slice(1, -1);
+    } else {
+      variables[key] = value;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Calculates the size of the environment variables as counted by Lambda.
+ * Values resolved on deployment, e.g. secrets, are not known at synth and not counted.
+ */
+export function getEnvironmentSize(variables: Record<string, unknown>): number {
+  return Object.entries(variables).reduce((size, [key, value]) =>
+    size + Buffer.byteLength(key) + (typeof value === 'string' ? Buffer.byteLength(value) : 0), 0);
+}
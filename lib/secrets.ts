@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The path of the loader in the Lambda layer, mounted at /opt
+export const SECRETS_LOADER_PATH = '/opt/nuxt-secrets/index.mjs';
+
+/**
+ * A secret or parameter resolved by the loader at runtime.
+ * Only the ARN or name is passed to the function, never the value.
+ */
+export type RuntimeSecretEntry =
+  | { type: 'secret'; arn: string; key?: string; fields?: Record<string, string>; }
+  | { type: 'parameter'; name: string; key: string; decrypt: boolean; };
+
+/**
+ * Creates the code of the loader that resolves the secrets and parameters at cold start.
+ * Preloaded with `--import` by Node.js, so the values are set on `process.env` before the server bundle is loaded.
+ * The values are fetched from the AWS Parameters and Secrets Lambda Extension, which caches them,
+ * and refreshed in the background every `RUNTIME_SECRETS_REFRESH_INTERVAL` seconds while the execution environment is reused.
+ * Only the reads of `process.env` after a refresh see the rotated values, e.g. `useRuntimeConfig(event)`, which applies the environment per request.
+ */
+export function createSecretsLoaderCode(): string {
+  return `const port = process.env.PARAMETERS_SECRETS_EXTENSION_HTTP_PORT || '2773';
+const entries = JSON.parse(process.env.RUNTIME_SECRETS || '[]');
+const refreshInterval = Number(process.env.RUNTIME_SECRETS_REFRESH_INTERVAL || 300) * 1000;
+
+async function request(path, attempt = 0) {
+  const response = await fetch('http://localhost:' + port + path, {
+    headers: { 'X-Aws-Parameters-Secrets-Token': process.env.AWS_SESSION_TOKEN },
+  }).catch(err => ({ ok: false, status: 0, text: async () => err.message }));
+
+  if (response.ok) return response.json();
+  // The extension may not accept connections yet at the very beginning of the init phase
+  if (attempt < 5) {
+    await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+    return request(path, attempt + 1);
+  }
+  throw new Error('Failed to fetch ' + path.split('?')[0] + ': ' + response.status + ' ' + await response.text());
+}
+
+async function resolve(entry) {
+  if (entry.type === 'parameter') {
+    const { Parameter } = await request('/systemsmanager/parameters/get?name=' + encodeURIComponent(entry.name) + '&withDecryption=' + entry.decrypt);
+    process.env[entry.key] = Parameter.Value;
+    return;
+  }
+
+  const { SecretString } = await request('/secretsmanager/get?secretId=' + encodeURIComponent(entry.arn));
+  if (entry.key) {
+    process.env[entry.key] = SecretString;
+  }
+  if (entry.fields) {
+    const values = JSON.parse(SecretString);
+    for (const [field, key] of Object.entries(entry.fields)) {
+      if (values[field] === undefined) {
+        throw new Error('Missing field ' + field + ' in secret ' + entry.arn);
+      }
+      process.env[key] = typeof values[field] === 'string' ? values[field] : JSON.stringify(values[field]);
+    }
+  }
+}
+
+async function load() {
+  await Promise.all(entries.map(resolve));
+}
+
+await load();
+
+setInterval(() => {
+  load().catch(err => console.error('Failed to refresh the runtime secrets', err));
+}, refreshInterval).unref();
+`;
+}
+
+/**
+ * Writes the loader to a temporary directory to bundle it as a Lambda layer.
+ *
+ * @returns The directory of the layer content.
+ */
+export function writeSecretsLoaderLayer(): string {
+  const layerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nuxt-secrets-'));
+  const loaderPath = path.join(layerDir, path.relative('/opt', SECRETS_LOADER_PATH));
+
+  fs.mkdirSync(path.dirname(loaderPath), { recursive: true });
+  fs.writeFileSync(loaderPath, createSecretsLoaderCode());
+
+  return layerDir;
+}
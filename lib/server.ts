@@ -2,33 +2,62 @@ import fs from 'fs';
 // @ts-expect-error library not fully ESM compatible
 import fse from 'fs-extra/esm';
 import path from 'path';
-import { Aws, Duration } from "aws-cdk-lib";
+import { Aws, Duration, Stack, CfnOutput, SecretValue } from "aws-cdk-lib";
 import { Construct } from 'constructs';
+import { PolicyStatement, Effect } from 'aws-cdk-lib/aws-iam';
 import { RetentionDays, LogGroup } from 'aws-cdk-lib/aws-logs';
-import { Function, Runtime, Architecture, Code, Tracing, DockerImageCode, DockerImageFunction, Alias } from 'aws-cdk-lib/aws-lambda';
+import { Function, CfnFunction, Runtime, Architecture, Code, Tracing, DockerImageCode, DockerImageFunction, Alias, type IScalableFunctionAttribute, FunctionUrl, FunctionUrlAuthType, InvokeMode, LayerVersion, ParamsAndSecretsLayerVersion, ParamsAndSecretsVersions, LoggingFormat } from 'aws-cdk-lib/aws-lambda';
 import { HttpApi, HttpMethod, DomainName, EndpointType, SecurityPolicy } from 'aws-cdk-lib/aws-apigatewayv2';
 import { HttpLambdaIntegration } from 'aws-cdk-lib/aws-apigatewayv2-integrations';
+import { HttpLambdaAuthorizer, HttpLambdaResponseType } from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
 import { Certificate } from 'aws-cdk-lib/aws-certificatemanager';
-import { HttpOrigin } from 'aws-cdk-lib/aws-cloudfront-origins';
-import { OriginProtocolPolicy } from 'aws-cdk-lib/aws-cloudfront';
-import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { HttpOrigin, FunctionUrlOrigin } from 'aws-cdk-lib/aws-cloudfront-origins';
+import { OriginProtocolPolicy, type IOrigin } from 'aws-cdk-lib/aws-cloudfront';
+import { Secret, type ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { StringParameter } from 'aws-cdk-lib/aws-ssm';
+import { Key } from 'aws-cdk-lib/aws-kms';
 import { Rule, Schedule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { Alarm, ComparisonOperator, MathExpression, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { LambdaDeploymentGroup, LambdaDeploymentConfig, TrafficRouting, type ILambdaDeploymentConfig } from 'aws-cdk-lib/aws-codedeploy';
 import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
-import { NuxtProps } from '../stack/NuxtProps';
+import { Vpc, type IVpc, Subnet, SubnetType, SecurityGroup, type SubnetSelection, type ISecurityGroup, InterfaceVpcEndpointAwsService, GatewayVpcEndpointAwsService } from 'aws-cdk-lib/aws-ec2';
+import { NuxtProps, type DeploymentProps, type SecretProps, type ParameterProps, type VpcProps, type BindingProps, type KeepWarmProps, type ConcurrencyScalingProps } from '../stack/NuxtProps';
+import { SECRETS_LOADER_PATH, writeSecretsLoaderLayer, type RuntimeSecretEntry } from './secrets';
+import { MAX_ENVIRONMENT_SIZE, toEnvName, toEnvVariables, readEnvFile, getEnvironmentSize } from './runtime-config';
+import { CertificateConstruct } from './certificate';
+import { hasHostedZone } from './domains';
+import { WARMER_HANDLER, writeWarmerLayer, createWarmerFanOutCode, type WarmerEvent } from './warmer';
+import { ORIGIN_VERIFY_HEADER, ORIGIN_SECRET_LENGTH, createOriginVerifyAuthorizerCode, createOriginSecretRotationCode } from './origin-verify';
 
 export class ServerConstruct extends Construct {
   private readonly resourceIdPrefix: string;
   private readonly rootDir: string;
   private readonly codeDir: string;
-  private lambdaFunction: Function;
-  private apiGateway: HttpApi;
-  public httpOrigin: HttpOrigin;
+  private readonly originId: string;
+  public lambdaFunction: Function;
+  public vpc: IVpc|undefined;
+  public lambdaAlias: Alias|undefined;
+  // The scalable provisioned concurrency of the alias, to add more scaling policies or scheduled actions
+  public provisionedConcurrencyScaling: IScalableFunctionAttribute|undefined;
+  public apiGateway: HttpApi|undefined;
+  private apiDomainName: DomainName|undefined;
+  private functionUrl: FunctionUrl|undefined;
+  // The secret of the origin header verified by the HTTP API, if any
+  public originSecret: ISecret|undefined;
+  private originSecretValue: string|undefined;
+  public httpOrigin: IOrigin;
+  // A second origin of the server for the failover origin group, as origin IDs must be unique within a distribution
+  public groupOrigin: IOrigin|undefined;
 
   constructor(scope: Construct, id: string, props: NuxtProps) {
     super(scope, id);
 
     // Set the resource prefix
     this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+    // The origin of the failover server needs a unique ID within the distribution
+    this.originId = props.failover?.region === props.env.region
+      ? `${this.resourceIdPrefix}-httporigin-failover`
+      : `${this.resourceIdPrefix}-httporigin`;
     this.rootDir = props.rootDir || './';
     this.codeDir = path.join(this.rootDir, props.serverProps?.codeDir || '.output/server');
 
@@ -37,40 +66,148 @@ export class ServerConstruct extends Construct {
       this.includeFilesAndDirectories(props.serverProps?.include);
     }
 
+    if (props.serverProps?.resolveSecrets === 'runtime') {
+      if (props.serverProps?.dockerFile) {
+        throw new Error('The runtime resolution of secrets requires a Lambda layer, which is not supported with serverProps.dockerFile.');
+      }
+      // The loader is preloaded with --import, which the Node.js versions of the Lambda runtimes support since Node.js 20
+      const runtimeName = (props.serverProps?.runtime || Runtime.NODEJS_20_X).name;
+      if (Number(/^nodejs(\d+)/.exec(runtimeName)?.[1] ?? 0) < 20) {
+        throw new Error(`The runtime resolution of secrets requires a Node.js 20 or later runtime to preload the loader with --import, but the function uses ${runtimeName}.`);
+      }
+    }
+
+    // Import the VPC to attach the function to
+    if (props.serverProps?.vpc) {
+      this.vpc = this.findVpc(props.serverProps.vpc);
+    }
+
     // If Dockerfile is specified, use it to build the Lambda container function
     // Otherwise, use the default Lambda function
     this.lambdaFunction = props.serverProps?.dockerFile
       ? this.createContainerLambdaFunction(props)
       : this.createLambdaFunction(props);
 
-    // Handle provisioned concurrency if specified
-    if (props.serverProps?.provisionedConcurrency !== undefined) {
-      // Provisioned concurrency requires the creation of a version and an alias
+    // Handle provisioned concurrency and gradual deployments if specified
+    const scaling = props.serverProps?.provisionedConcurrencyScaling;
+    if (scaling && props.serverProps?.provisionedConcurrency !== undefined) {
+      throw new Error('serverProps.provisionedConcurrency can not be combined with provisionedConcurrencyScaling, as Application Auto Scaling manages the provisioned concurrency.');
+    }
+    if (props.serverProps?.provisionedConcurrency !== undefined || scaling || props.serverProps?.deployment) {
+      // Provisioned concurrency and gradual deployments require the creation of a version and an alias
       const version = this.lambdaFunction.currentVersion;
-      new Alias(this, 'LambdaAlias', {
+      this.lambdaAlias = new Alias(this, 'LambdaAlias', {
         aliasName: 'live',
         version: version,
-        provisionedConcurrentExecutions: props.serverProps.provisionedConcurrency,
+        // A scaled alias gets its provisioned concurrency from Application Auto Scaling, so the deployments do not reset it
+        provisionedConcurrentExecutions: props.serverProps?.provisionedConcurrency,
       });
     }
+
+    // Scale the provisioned concurrency of the alias by its utilization and on a schedule
+    if (this.lambdaAlias && scaling) {
+      this.provisionedConcurrencyScaling = this.createConcurrencyScaling(this.lambdaAlias, scaling);
+    }
+
+    // Shift the traffic of the alias gradually to new versions
+    if (this.lambdaAlias && props.serverProps?.deployment) {
+      this.createDeploymentGroup(props);
+    }
    
     // Include the environment variables in the Lambda function
+    if (props.serverProps?.envFile) {
+      this.addEnvironmentFile(props);
+    }
     if (props.serverProps?.variables && props.serverProps?.variables?.length > 0) {
       this.addEnvironmentVariables(props.serverProps?.variables || {});
     }
-    if (props.serverProps?.secrets && props.serverProps?.secrets?.length > 0) {
-      this.addSecrets(props.serverProps?.secrets || {});
+    if (props.serverProps?.runtimeConfig) {
+      this.addEnvironmentVariables([toEnvVariables(props.serverProps.runtimeConfig)]);
+    }
+    if (props.serverProps?.resolveSecrets === 'runtime') {
+      this.addRuntimeSecrets(props);
+    } else {
+      if (props.serverProps?.secrets && props.serverProps?.secrets?.length > 0) {
+        this.addSecrets(props.serverProps?.secrets || {});
+      }
+      if (props.serverProps?.parameters && props.serverProps?.parameters?.length > 0) {
+        this.addParameters(props.serverProps?.parameters);
+      }
+    }
+
+    // Grant the access to the resources of the app and pass their names to the runtimeConfig
+    if (props.serverProps?.bindings && props.serverProps?.bindings.length > 0) {
+      this.addBindings(props.serverProps.bindings);
+    }
+    (props.serverProps?.policyStatements || []).forEach(statement => {
+      this.lambdaFunction.addToRolePolicy(statement);
+    });
+
+    // Fail early instead of on deployment
+    this.validateEnvironment(props);
+
+    if (props.serverProps?.streaming && props.serverProps?.origin !== 'functionUrl') {
+      throw new Error('Response streaming requires serverProps.origin to be functionUrl.');
+    }
+
+    if (props.serverProps?.originVerify) {
+      this.validateOriginVerify(props);
+      this.createOriginSecret(props);
+    }
+
+    // Create the API gateway or the Function URL to make the Lambda function publicly available
+    if (props.serverProps?.origin === 'functionUrl') {
+      this.functionUrl = this.createFunctionUrl(props);
+    } else {
+      this.apiGateway = this.createApiGateway(props);
+    }
+
+    // Create the origin to route incoming requests to the Lambda function
+    this.httpOrigin = this.createHttpOrigin(props, this.originId);
+    if (props.failover && props.failover.region !== props.env.region) {
+      this.groupOrigin = this.createHttpOrigin(props, `${this.originId}-primary`);
     }
 
-    // Create the API gateway to make the Lambda function publicly available
-    this.apiGateway = this.createApiGateway(props);
+    // Create the scheduled rules to keep the Lambda function warm, unless provisioned concurrency always does
+    const keepWarm = this.getMinProvisionedConcurrency(props) >= 1 ? undefined : props.serverProps?.keepWarm;
+    if (keepWarm) {
+      if (props.serverProps?.dockerFile) {
+        if (keepWarm !== true) {
+          throw new Error('The keepWarm settings require the wrapper of the handler in a Lambda layer, which is not supported with serverProps.dockerFile. Use keepWarm: true.');
+        }
+        this.createPingRule(props);
+      } else {
+        this.createWarmerRules(props, keepWarm === true ? {} : keepWarm);
+      }
+    }
 
-    // Create the API gateway origin to route incoming requests to the Lambda function
-    this.httpOrigin = this.createHttpOrigin(props);
+    // Create the VPC endpoints and keep the network interfaces of the function active
+    if (this.vpc && props.serverProps?.vpc) {
+      if (props.serverProps.vpc.endpoints?.length) {
+        this.createVpcEndpoints(props.serverProps.vpc);
+      }
+      if (!keepWarm) {
+        this.createEniWarmerRule();
+      }
+    }
 
-    // Create a scheduled rule to ping the Lambda function every 5 minutes
-    if (props.serverProps?.keepWarm) {
-      this.createPingRule(props);
+    // Output the function and the HTTP API
+    new CfnOutput(this, 'FunctionName', {
+      value: this.lambdaFunction.functionName,
+      description: 'The name of the Lambda function',
+      exportName: `${this.resourceIdPrefix}-function-name`,
+    });
+    new CfnOutput(this, 'FunctionArn', {
+      value: (this.lambdaAlias ?? this.lambdaFunction).functionArn,
+      description: 'The ARN of the Lambda function invoked by the origin, qualified with the alias if any',
+      exportName: `${this.resourceIdPrefix}-function-arn`,
+    });
+    if (this.apiGateway && !this.apiGateway.disableExecuteApiEndpoint) {
+      new CfnOutput(this, 'ApiUrl', {
+        value: this.apiGateway.apiEndpoint,
+        description: 'The endpoint of the HTTP API',
+        exportName: `${this.resourceIdPrefix}-api-url`,
+      });
     }
   }
 
@@ -123,9 +260,11 @@ export class ServerConstruct extends Construct {
         : Duration.seconds(10),
       memorySize: props.serverProps?.memorySize || 1792,
       logGroup: new LogGroup(this, 'ServerFunctionLogGroup', {
-        retention: RetentionDays.ONE_MONTH,
+        retention: props.serverProps?.logRetention || RetentionDays.ONE_MONTH,
       }),
+      loggingFormat: props.serverProps?.logFormat === 'json' ? LoggingFormat.JSON : LoggingFormat.TEXT,
       allowPublicSubnet: false,
+      ...this.getVpcConfig(props),
       tracing: props.serverProps?.tracing ? Tracing.ACTIVE : Tracing.DISABLED,
       environment: {
         NODE_OPTIONS: '--enable-source-maps',
@@ -157,15 +296,21 @@ export class ServerConstruct extends Construct {
           : Duration.seconds(10),
         memorySize: props.serverProps?.memorySize || 1792,
         logGroup: new LogGroup(this, 'DockerImageFunctionLogGroup', {
-          retention: RetentionDays.ONE_MONTH,
+          retention: props.serverProps?.logRetention || RetentionDays.ONE_MONTH,
         }),
+        loggingFormat: props.serverProps?.logFormat === 'json' ? LoggingFormat.JSON : LoggingFormat.TEXT,
         allowPublicSubnet: false,
+        ...this.getVpcConfig(props),
         tracing: props.serverProps?.tracing ? Tracing.ACTIVE : Tracing.DISABLED,
         environment: {
             NODE_OPTIONS: '--enable-source-maps',
             NITRO_PRESET: 'aws-lambda'
         },
         reservedConcurrentExecutions: props.serverProps?.reservedConcurrency,
+        // Fetch and cache the secrets and parameters resolved at runtime
+        ...(props.serverProps?.resolveSecrets === 'runtime' && {
+          paramsAndSecrets: this.getParamsAndSecretsExtension(props),
+        }),
     });
 
     return lambdaFunction;
@@ -185,56 +330,309 @@ export class ServerConstruct extends Construct {
     });
   }
 
+  /**
+   * Add the variables of the dotenv file in the root directory to the Lambda function environment.
+   *
+   * @private
+   */
+  private addEnvironmentFile(props: NuxtProps): void {
+    const envFile = typeof props.serverProps?.envFile === 'string'
+      ? props.serverProps.envFile
+      : `.env.${props.environment}`;
+
+    this.addEnvironmentVariables([readEnvFile(path.join(this.rootDir, envFile))]);
+  }
+
+  /**
+   * Checks that the required runtimeConfig keys are set and that the environment fits into the Lambda limit.
+   *
+   * @private
+   */
+  private validateEnvironment(props: NuxtProps): void {
+    const cfnFunction = this.lambdaFunction.node.defaultChild as CfnFunction;
+    const variables: Record<string, unknown> = Stack.of(this).resolve(cfnFunction.environment)?.variables || {};
+
+    // The secrets resolved at runtime are not part of the function configuration
+    const runtimeNames = props.serverProps?.resolveSecrets === 'runtime'
+      ? [
+          ...(props.serverProps?.secrets || []).flatMap(secret => [secret.key, ...Object.values(secret.fields || {})]),
+          ...(props.serverProps?.parameters || []).map(parameter => parameter.key),
+        ]
+      : [];
+    const names = [
+      ...Object.keys(variables).filter(name => variables[name] !== ''),
+      ...runtimeNames,
+    ];
+
+    const missingKeys = (props.serverProps?.requiredRuntimeConfig || []).filter(key => {
+      const envName = toEnvName(key);
+      // Nested keys may be set per field, e.g. NUXT_STRIPE_SECRET_KEY for `stripe`
+      return !names.some(name => name === envName || name?.startsWith(`${envName}_`));
+    });
+    if (missingKeys.length > 0) {
+      throw new Error(`Missing required runtimeConfig keys: ${missingKeys.map(key => `${key} (${toEnvName(key)})`).join(', ')}.`);
+    }
+
+    const size = getEnvironmentSize(variables);
+    if (size > MAX_ENVIRONMENT_SIZE) {
+      throw new Error(`The environment variables of the Lambda function take ${size} bytes, exceeding the 4 KB limit. Move large values to secrets with serverProps.resolveSecrets set to runtime.`);
+    }
+  }
+
   /**
    * Add secrets from AWS Secrets Manager to the Lambda function environment.
-   * @param secrets Array of objects with { key, resource } where resource is the ARN of the secret.
+   * @param secrets Array of objects with { key, fields, resource } where resource is the ARN of the secret.
    *
    * @private
    */
-  private addSecrets(secrets: Array<{ key: string; resource: string }>): void {
-    secrets.forEach(secret => {
-      const importedSecret = Secret.fromSecretCompleteArn(
-        this,
-        `Secret-${secret.key}`,
-        secret.resource
-      );
+  private addSecrets(secrets: SecretProps[]): void {
+    secrets.forEach((secret, index) => {
+      const importedSecret = this.importSecret(secret, index);
 
       // Add the secret value as an environment variable
-      this.lambdaFunction.addEnvironment(secret.key, importedSecret.secretValue.unsafeUnwrap());
+      if (secret.key) {
+        this.lambdaFunction.addEnvironment(secret.key, importedSecret.secretValue.unsafeUnwrap());
+      }
+      // Add the fields of a JSON secret as environment variables
+      Object.entries(secret.fields || {}).forEach(([field, key]) => {
+        this.lambdaFunction.addEnvironment(key, importedSecret.secretValueFromJson(field).unsafeUnwrap());
+      });
 
       // Grant Lambda permission to read the secret
       importedSecret.grantRead(this.lambdaFunction);
     });
   }
 
+  /**
+   * Add parameters from SSM Parameter Store to the Lambda function environment.
+   * The values are resolved by CloudFormation on deployment.
+   *
+   * @private
+   */
+  private addParameters(parameters: ParameterProps[]): void {
+    parameters.forEach(parameter => {
+      if (parameter.kmsKeyArn || parameter.secure) {
+        throw new Error(`The SecureString parameter ${parameter.name} requires serverProps.resolveSecrets to be runtime.`);
+      }
+      this.lambdaFunction.addEnvironment(parameter.key, StringParameter.valueForStringParameter(this, parameter.name));
+    });
+  }
+
+  /**
+   * Grants the function least-privilege access to the bound resources
+   * and passes their names, URLs or ARNs as NUXT_* environment variables.
+   *
+   * @private
+   */
+  private addBindings(bindings: BindingProps[]): void {
+    bindings.forEach(binding => {
+      const envName = toEnvName(binding.key);
+
+      if ('table' in binding) {
+        const access = binding.access || 'readWrite';
+        if (access !== 'write') binding.table.grantReadData(this.lambdaFunction);
+        if (access !== 'read') binding.table.grantWriteData(this.lambdaFunction);
+        this.lambdaFunction.addEnvironment(envName, binding.table.tableName);
+      } else if ('bucket' in binding) {
+        const access = binding.access || 'readWrite';
+        if (access !== 'write') binding.bucket.grantRead(this.lambdaFunction);
+        if (access !== 'read') binding.bucket.grantWrite(this.lambdaFunction);
+        this.lambdaFunction.addEnvironment(envName, binding.bucket.bucketName);
+      } else if ('queue' in binding) {
+        const access = binding.access || 'write';
+        if (access !== 'write') binding.queue.grantConsumeMessages(this.lambdaFunction);
+        if (access !== 'read') binding.queue.grantSendMessages(this.lambdaFunction);
+        this.lambdaFunction.addEnvironment(envName, binding.queue.queueUrl);
+      } else if ('topic' in binding) {
+        binding.topic.grantPublish(this.lambdaFunction);
+        this.lambdaFunction.addEnvironment(envName, binding.topic.topicArn);
+      } else {
+        throw new Error(`The binding ${binding['key']} requires a table, bucket, queue or topic.`);
+      }
+    });
+  }
+
+  /**
+   * Passes the ARNs of the secrets and the names of the parameters to the Lambda function,
+   * which resolves the values at cold start with the loader layer and the AWS Parameters and Secrets Lambda Extension.
+   * The values never appear in the template or the function configuration.
+   *
+   * @private
+   */
+  private addRuntimeSecrets(props: NuxtProps): void {
+    const entries: RuntimeSecretEntry[] = [];
+
+    (props.serverProps?.secrets || []).forEach((secret, index) => {
+      const importedSecret = this.importSecret(secret, index);
+      importedSecret.grantRead(this.lambdaFunction);
+      entries.push({ type: 'secret', arn: secret.resource, key: secret.key, fields: secret.fields });
+    });
+
+    (props.serverProps?.parameters || []).forEach(parameter => {
+      const secure = parameter.secure ?? !!parameter.kmsKeyArn;
+      const importedParameter = secure
+        ? StringParameter.fromSecureStringParameterAttributes(this, `Parameter-${parameter.key}`, {
+            parameterName: parameter.name,
+            encryptionKey: parameter.kmsKeyArn ? Key.fromKeyArn(this, `ParameterKey-${parameter.key}`, parameter.kmsKeyArn) : undefined,
+          })
+        : StringParameter.fromStringParameterName(this, `Parameter-${parameter.key}`, parameter.name);
+      // Grants kms:Decrypt on the customer managed key as well
+      importedParameter.grantRead(this.lambdaFunction);
+      entries.push({ type: 'parameter', name: parameter.name, key: parameter.key, decrypt: secure });
+    });
+
+    this.lambdaFunction.addLayers(new LayerVersion(this, 'SecretsLoaderLayer', {
+      layerVersionName: `${this.resourceIdPrefix}-secrets-loader`,
+      description: `Loads the runtime secrets of the ${this.resourceIdPrefix} app.`,
+      code: Code.fromAsset(writeSecretsLoaderLayer()),
+    }));
+
+    // Preload the loader, so the values are set before the server bundle reads the environment
+    this.lambdaFunction.addEnvironment('NODE_OPTIONS', `--enable-source-maps --import ${SECRETS_LOADER_PATH}`);
+    this.lambdaFunction.addEnvironment('RUNTIME_SECRETS', JSON.stringify(entries));
+    this.lambdaFunction.addEnvironment('RUNTIME_SECRETS_REFRESH_INTERVAL', String(props.serverProps?.secretsRefreshInterval ?? 300));
+  }
+
+  /**
+   * Configures the AWS Parameters and Secrets Lambda Extension to cache the values up to the refresh interval.
+   *
+   * @private
+   */
+  private getParamsAndSecretsExtension(props: NuxtProps): ParamsAndSecretsLayerVersion {
+    // The extension caches the values for at most 300 seconds
+    const ttl = Duration.seconds(Math.min(props.serverProps?.secretsRefreshInterval ?? 300, 300));
+
+    return ParamsAndSecretsLayerVersion.fromVersion(ParamsAndSecretsVersions.V1_0_103, {
+      cacheEnabled: true,
+      secretsManagerTtl: ttl,
+      parameterStoreTtl: ttl,
+    });
+  }
+
+  /**
+   * Imports the secret by its ARN.
+   *
+   * @private
+   */
+  private importSecret(secret: SecretProps, index: number) {
+    if (!secret.key && !secret.fields) {
+      throw new Error(`The secret ${secret.resource} requires a key or fields.`);
+    }
+    return Secret.fromSecretCompleteArn(this, `Secret-${secret.key || index}`, secret.resource);
+  }
+
+  /**
+   * Creates the CodeDeploy deployment group to shift the traffic of the alias gradually to new versions.
+   * The deployment is rolled back automatically when the error rate of the alias exceeds the threshold.
+   *
+   * @private
+   */
+  private createDeploymentGroup(props: NuxtProps): LambdaDeploymentGroup {
+    const deployment = props.serverProps?.deployment as DeploymentProps;
+    const alias = this.lambdaAlias as Alias;
+
+    const errorRateAlarm = new Alarm(this, 'DeploymentErrorRateAlarm', {
+      alarmName: `${this.resourceIdPrefix}-deployment-error-rate`,
+      alarmDescription: `Rolls back the deployment of the ${this.resourceIdPrefix} function when the error rate is too high.`,
+      metric: new MathExpression({
+        expression: '100 * errors / MAX([invocations, 1])',
+        usingMetrics: {
+          errors: alias.metricErrors({ statistic: 'Sum' }),
+          invocations: alias.metricInvocations({ statistic: 'Sum' }),
+        },
+        period: Duration.minutes(1),
+      }),
+      threshold: deployment.errorRateThreshold ?? 5,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+      evaluationPeriods: 2,
+      treatMissingData: TreatMissingData.NOT_BREACHING,
+    });
+
+    return new LambdaDeploymentGroup(this, 'DeploymentGroup', {
+      deploymentGroupName: `${this.resourceIdPrefix}-deployment-group`,
+      alias: alias,
+      deploymentConfig: this.createDeploymentConfig(deployment),
+      alarms: [errorRateAlarm],
+      autoRollback: {
+        failedDeployment: true,
+        stoppedDeployment: true,
+        deploymentInAlarm: true,
+      },
+      preHook: deployment.preTrafficHook,
+      postHook: deployment.postTrafficHook,
+    });
+  }
+
+  /**
+   * Resolves the deployment config for the traffic shifting strategy.
+   *
+   * @private
+   */
+  private createDeploymentConfig(deployment: DeploymentProps): ILambdaDeploymentConfig {
+    const percentage = deployment.percentage ?? 10;
+    const interval = Duration.minutes(deployment.interval ?? 5);
+
+    switch (deployment.strategy) {
+      case 'canary':
+        return new LambdaDeploymentConfig(this, 'DeploymentConfig', {
+          deploymentConfigName: `${this.resourceIdPrefix}-canary`,
+          trafficRouting: TrafficRouting.timeBasedCanary({ interval, percentage }),
+        });
+      case 'linear':
+        return new LambdaDeploymentConfig(this, 'DeploymentConfig', {
+          deploymentConfigName: `${this.resourceIdPrefix}-linear`,
+          trafficRouting: TrafficRouting.timeBasedLinear({ interval, percentage }),
+        });
+      default:
+        return LambdaDeploymentConfig.ALL_AT_ONCE;
+    }
+  }
+
   /**
    * Creates the API gateway to make the Nuxt app render Lambda function publicly available.
    *
    * @private
    */
   private createApiGateway(props: NuxtProps): HttpApi {
-    const lambdaIntegration = new HttpLambdaIntegration(`${this.resourceIdPrefix}-lambda-integration`, this.lambdaFunction);
+    // Invoke the alias if one exists to make use of the provisioned concurrency and the gradual deployments
+    const lambdaIntegration = new HttpLambdaIntegration(`${this.resourceIdPrefix}-lambda-integration`, this.lambdaAlias ?? this.lambdaFunction);
 
     // We want the API gateway to be accessible by the custom domain name.
     // Even though we access the gateway via CloudFront (for auto http to https redirects), this is required
     // to be able to redirect the original 'Host' header to the Nuxt application, if requested.
     let domainName: DomainName | undefined = undefined;
 
-    if (props.domain && props.regionalCertificateArn) {
+    // Issue the certificate in the region of the stack when none is provided
+    const certificate = props.regionalCertificateArn
+      ? Certificate.fromCertificateArn(this, `${this.resourceIdPrefix}-regional-certificate`, props.regionalCertificateArn)
+      : props.domain && hasHostedZone(props)
+        ? new CertificateConstruct(this, 'RegionalCertificate', props, { domainNames: [props.domain], nameSuffix: 'regional' }).certificate
+        : undefined;
+
+    if (props.domain && certificate) {
       domainName = new DomainName(this, `${this.resourceIdPrefix}-api-domain`, {
         domainName: props.domain,
-        certificate: Certificate.fromCertificateArn(this, `${this.resourceIdPrefix}-regional-certificate`, props.regionalCertificateArn),
+        certificate: certificate,
         endpointType: EndpointType.REGIONAL,
         securityPolicy: SecurityPolicy.TLS_1_2
       });
     };
 
+    // CloudFront reaches the HTTP API at the mapped domain instead of the execute-api endpoint
+    const disableExecuteApiEndpoint = props.serverProps?.originVerify?.disableExecuteApiEndpoint;
+    if (disableExecuteApiEndpoint && !domainName) {
+      throw new Error('serverProps.originVerify.disableExecuteApiEndpoint requires the domain with a regionalCertificateArn or a hosted zone to issue the certificate.');
+    }
+    this.apiDomainName = disableExecuteApiEndpoint ? domainName : undefined;
+
     const apiGateway = new HttpApi(this, "API", {
       apiName: `${this.resourceIdPrefix}-api`,
       description: `Connects the ${this.resourceIdPrefix} CloudFront distribution with the ${this.resourceIdPrefix} Lambda function to make it publicly available.`,
       // The app does not allow any cross-origin access by purpose: the app should not be embeddable anywhere
       corsPreflight: undefined,
       defaultIntegration: lambdaIntegration,
+      disableExecuteApiEndpoint: disableExecuteApiEndpoint,
+      ...(this.originSecret && { defaultAuthorizer: this.createOriginVerifyAuthorizer(this.originSecret) }),
       ...(domainName && { defaultDomainMapping: { domainName } })
     });
 
@@ -248,15 +646,246 @@ export class ServerConstruct extends Construct {
   }
 
   /**
-   * Creates the CloudFront distribution behavior origin to route incoming requests to the Nuxt render Lambda function (via API gateway).
+   * Creates the Function URL to make the Nuxt app render Lambda function available to CloudFront.
+   * The URL only accepts requests signed by CloudFront with the Origin Access Control.
+   *
+   * @private
    */
-  private createHttpOrigin(props: NuxtProps): HttpOrigin {
-    return new HttpOrigin(`${this.apiGateway.httpApiId}.execute-api.${props.env.region}.amazonaws.com`, {
-      originId: `${this.resourceIdPrefix}-httporigin`,
+  private createFunctionUrl(props: NuxtProps): FunctionUrl {
+    return (this.lambdaAlias ?? this.lambdaFunction).addFunctionUrl({
+      authType: FunctionUrlAuthType.AWS_IAM,
+      invokeMode: props.serverProps?.streaming ? InvokeMode.RESPONSE_STREAM : InvokeMode.BUFFERED,
+    });
+  }
+
+  /**
+   * Creates the CloudFront distribution behavior origin to route incoming requests to the Nuxt render Lambda function
+   * (via API gateway or the Function URL).
+   */
+  private createHttpOrigin(props: NuxtProps, originId: string): IOrigin {
+    if (this.functionUrl) {
+      // Creates the Origin Access Control and allows CloudFront to invoke the Function URL
+      return FunctionUrlOrigin.withOriginAccessControl(this.functionUrl, {
+        originId: originId,
+        connectionAttempts: 2,
+        connectionTimeout: Duration.seconds(2),
+        readTimeout: Duration.seconds(Math.min(props.serverProps?.timeout || 10, 60)),
+      });
+    }
+
+    const domainName = this.apiDomainName
+      ? this.apiDomainName.regionalDomainName
+      : `${this.apiGateway?.httpApiId}.execute-api.${props.env.region}.amazonaws.com`;
+
+    return new HttpOrigin(domainName, {
+      originId: originId,
       connectionAttempts: 2,
       connectionTimeout: Duration.seconds(2),
       readTimeout: Duration.seconds(10),
       protocolPolicy: OriginProtocolPolicy.HTTPS_ONLY,
+      ...(this.originSecretValue && { customHeaders: { [ORIGIN_VERIFY_HEADER]: this.originSecretValue } }),
+    });
+  }
+
+  /**
+   * Validates the props of the origin verification.
+   *
+   * @private
+   */
+  private validateOriginVerify(props: NuxtProps): void {
+    if (props.serverProps?.origin === 'functionUrl') {
+      throw new Error('serverProps.originVerify is not supported with the functionUrl origin, which only accepts requests signed by CloudFront.');
+    }
+    if (props.serverProps?.originVerify?.disableExecuteApiEndpoint && props.domainAliases?.length) {
+      throw new Error('serverProps.originVerify.disableExecuteApiEndpoint can not be combined with domainAliases, as the HTTP API is only mapped to the domain.');
+    }
+  }
+
+  /**
+   * Creates the secret of the origin header and rotates it with the rotation function.
+   * The secret is replicated to the failover region, where the server imports the replica by its name.
+   * The header value of the origins is resolved by CloudFormation in the region of the distribution.
+   *
+   * @private
+   */
+  private createOriginSecret(props: NuxtProps): void {
+    const secretName = `${this.resourceIdPrefix}-origin-verify`;
+
+    if (props.failover?.region === props.env.region) {
+      this.originSecret = Secret.fromSecretNameV2(this, 'OriginSecret', secretName);
+      this.originSecretValue = SecretValue.secretsManager(secretName).unsafeUnwrap();
+      return;
+    }
+
+    const secret = new Secret(this, 'OriginSecret', {
+      secretName: secretName,
+      description: `The value of the ${ORIGIN_VERIFY_HEADER} header CloudFront sends to the ${this.resourceIdPrefix} HTTP API.`,
+      generateSecretString: {
+        passwordLength: ORIGIN_SECRET_LENGTH,
+        excludePunctuation: true,
+      },
+      ...(props.failover && { replicaRegions: [{ region: props.failover.region }] }),
+    });
+
+    const rotationFunction = new Function(this, 'OriginSecretRotationFunction', {
+      description: `Rotates the origin header of the ${this.resourceIdPrefix} app on the CloudFront distributions.`,
+      runtime: Runtime.NODEJS_20_X,
+      architecture: Architecture.ARM_64,
+      handler: 'index.handler',
+      code: Code.fromInline(createOriginSecretRotationCode()),
+      timeout: Duration.minutes(5),
+      memorySize: 128,
+      logGroup: new LogGroup(this, 'OriginSecretRotationLogGroup', {
+        retention: RetentionDays.ONE_WEEK,
+      }),
+    });
+    rotationFunction.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['secretsmanager:GetRandomPassword'],
+      resources: ['*'],
+    }));
+    // The distributions are found by the current header value of their origins, as the server is created before the distribution
+    rotationFunction.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['cloudfront:ListDistributions', 'cloudfront:GetDistributionConfig', 'cloudfront:UpdateDistribution'],
+      resources: [`arn:aws:cloudfront::${Aws.ACCOUNT_ID}:distribution/*`],
+    }));
+
+    secret.addRotationSchedule('OriginSecretRotation', {
+      rotationLambda: rotationFunction,
+      automaticallyAfter: Duration.days(props.serverProps?.originVerify?.rotationDays ?? 30),
+      rotateImmediatelyOnUpdate: false,
+    });
+
+    this.originSecret = secret;
+    this.originSecretValue = secret.secretValue.unsafeUnwrap();
+  }
+
+  /**
+   * Creates the Lambda authorizer that rejects the requests without the secret origin header.
+   * The authorizer responses are cached by the header value.
+   *
+   * @private
+   */
+  private createOriginVerifyAuthorizer(secret: ISecret): HttpLambdaAuthorizer {
+    const authorizerFunction = new Function(this, 'OriginVerifyFunction', {
+      description: `Verifies the origin header of the requests to the ${this.resourceIdPrefix} HTTP API.`,
+      runtime: Runtime.NODEJS_20_X,
+      architecture: Architecture.ARM_64,
+      handler: 'index.handler',
+      code: Code.fromInline(createOriginVerifyAuthorizerCode()),
+      timeout: Duration.seconds(10),
+      memorySize: 128,
+      environment: {
+        SECRET_ID: secret.secretName,
+      },
+      logGroup: new LogGroup(this, 'OriginVerifyLogGroup', {
+        retention: RetentionDays.ONE_WEEK,
+      }),
+    });
+    secret.grantRead(authorizerFunction);
+
+    return new HttpLambdaAuthorizer('OriginVerifyAuthorizer', authorizerFunction, {
+      authorizerName: `${this.resourceIdPrefix}-origin-verify`,
+      identitySource: [`$request.header.${ORIGIN_VERIFY_HEADER}`],
+      responseTypes: [HttpLambdaResponseType.SIMPLE],
+      resultsCacheTtl: Duration.minutes(5),
+    });
+  }
+
+  /**
+   * Imports the VPC of the function by its construct, its ID or its name.
+   *
+   * @private
+   */
+  private findVpc(vpcProps: VpcProps): IVpc {
+    if (vpcProps.vpc) {
+      return vpcProps.vpc;
+    }
+    if (!vpcProps.vpcId && !vpcProps.vpcName) {
+      throw new Error('The VPC requires serverProps.vpc.vpc, serverProps.vpc.vpcId or serverProps.vpc.vpcName.');
+    }
+    return Vpc.fromLookup(this, 'Vpc', {
+      vpcId: vpcProps.vpcId,
+      vpcName: vpcProps.vpcName,
+    });
+  }
+
+  /**
+   * Resolves the VPC, the subnets and the security groups of the function.
+   * The Lambda construct adds the permissions to manage the network interfaces to the function role.
+   *
+   * @private
+   */
+  private getVpcConfig(props: NuxtProps): { vpc?: IVpc; vpcSubnets?: SubnetSelection; securityGroups?: ISecurityGroup[]; } {
+    const vpcProps = props.serverProps?.vpc;
+    if (!this.vpc || !vpcProps) return {};
+
+    return {
+      vpc: this.vpc,
+      vpcSubnets: this.getVpcSubnets(vpcProps),
+      securityGroups: vpcProps.securityGroupIds?.map((securityGroupId, index) =>
+        SecurityGroup.fromSecurityGroupId(this, `SecurityGroup${index}`, securityGroupId)
+      ),
+    };
+  }
+
+  /**
+   * Selects the subnets of the function by their IDs or their type.
+   *
+   * @private
+   */
+  private getVpcSubnets(vpcProps: VpcProps): SubnetSelection {
+    return vpcProps.subnetIds?.length
+      ? { subnets: vpcProps.subnetIds.map((subnetId, index) => Subnet.fromSubnetId(this, `Subnet${index}`, subnetId)) }
+      : { subnetType: vpcProps.subnetType || SubnetType.PRIVATE_WITH_EGRESS };
+  }
+
+  /**
+   * Creates the VPC endpoints for the AWS services used by the function, so no NAT gateway is required to reach them.
+   * The interface endpoints accept HTTPS requests from the VPC and resolve the public service names to private IPs.
+   *
+   * @private
+   */
+  private createVpcEndpoints(vpcProps: VpcProps): void {
+    const vpc = this.vpc as IVpc;
+    const subnets = this.getVpcSubnets(vpcProps);
+    const endpoints = new Set(vpcProps.endpoints);
+
+    if (endpoints.has('secretsManager')) {
+      vpc.addInterfaceEndpoint('SecretsManagerEndpoint', {
+        service: InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+        subnets,
+      });
+    }
+    if (endpoints.has('ssm')) {
+      vpc.addInterfaceEndpoint('SsmEndpoint', {
+        service: InterfaceVpcEndpointAwsService.SSM,
+        subnets,
+      });
+    }
+    if (endpoints.has('s3')) {
+      vpc.addGatewayEndpoint('S3Endpoint', {
+        service: GatewayVpcEndpointAwsService.S3,
+        subnets: [subnets],
+      });
+    }
+  }
+
+  /**
+   * Creates a scheduled rule to invoke the function daily.
+   * Lambda reclaims the network interfaces of VPC functions that are idle for weeks,
+   * and the next invocation fails until they are recreated.
+   *
+   * @private
+   */
+  private createEniWarmerRule(): void {
+    new Rule(this, 'EniWarmerRule', {
+      ruleName: `${this.resourceIdPrefix}-eni-warmer`,
+      description: `Invokes the Lambda function of the ${this.resourceIdPrefix} app daily to keep its network interfaces active.`,
+      enabled: true,
+      schedule: Schedule.rate(Duration.days(1)),
+      targets: [this.createPingTarget()],
     });
   }
 
@@ -267,6 +896,152 @@ export class ServerConstruct extends Construct {
    * @private
    */
   private createPingRule(props: NuxtProps): void {
+    new Rule(this, `PingRule`, {
+        ruleName: `${this.resourceIdPrefix}-pinger`,
+        description: `Pings the Lambda function of the ${this.resourceIdPrefix} app every 5 minutes to keep it warm.`,
+        enabled: true,
+        schedule: Schedule.rate(Duration.minutes(5)),
+        targets: [this.createPingTarget()],
+    });
+  }
+
+  /**
+   * Returns the provisioned concurrency that is guaranteed at any time, i.e. the lowest minimum capacity of the scaling and its schedules.
+   *
+   * @private
+   */
+  private getMinProvisionedConcurrency(props: NuxtProps): number {
+    const scaling = props.serverProps?.provisionedConcurrencyScaling;
+    if (!scaling) {
+      return props.serverProps?.provisionedConcurrency ?? 0;
+    }
+    return Math.min(scaling.minCapacity, ...(scaling.schedules || []).map(schedule => schedule.minCapacity ?? scaling.minCapacity));
+  }
+
+  /**
+   * Registers the provisioned concurrency of the alias with Application Auto Scaling.
+   * The target tracking policy scales within the bounds, the scheduled actions change the bounds.
+   *
+   * @private
+   */
+  private createConcurrencyScaling(alias: Alias, scaling: ConcurrencyScalingProps): IScalableFunctionAttribute {
+    if (scaling.minCapacity < 0 || scaling.maxCapacity < 1 || scaling.minCapacity > scaling.maxCapacity) {
+      throw new Error('serverProps.provisionedConcurrencyScaling requires 0 <= minCapacity <= maxCapacity and a maxCapacity of at least 1.');
+    }
+
+    const scalable = alias.addAutoScaling({
+      minCapacity: scaling.minCapacity,
+      maxCapacity: scaling.maxCapacity,
+    });
+    scalable.scaleOnUtilization({
+      utilizationTarget: scaling.utilizationTarget ?? 0.7,
+    });
+
+    (scaling.schedules || []).forEach((schedule, index) => {
+      if (schedule.minCapacity === undefined && schedule.maxCapacity === undefined) {
+        throw new Error(`The provisioned concurrency schedule ${index} requires minCapacity or maxCapacity.`);
+      }
+      scalable.scaleOnSchedule(`ConcurrencySchedule${index}`, {
+        schedule: schedule.schedule,
+        timeZone: schedule.timeZone,
+        minCapacity: schedule.minCapacity,
+        maxCapacity: schedule.maxCapacity,
+      });
+    });
+
+    return scalable;
+  }
+
+  /**
+   * Creates the scheduled rules of the warm-up.
+   * The handler of the function is wrapped to return on warmer events without rendering.
+   * Several execution environments are kept warm by a fan-out function invoking the function in parallel.
+   *
+   * @private
+   */
+  private createWarmerRules(props: NuxtProps, keepWarm: KeepWarmProps): void {
+    const concurrency = keepWarm.concurrency ?? 1;
+    const intervalMinutes = keepWarm.intervalMinutes ?? 5;
+    const windows = keepWarm.windows || [];
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('serverProps.keepWarm.concurrency must be a positive integer.');
+    }
+    if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 59) {
+      throw new Error('serverProps.keepWarm.intervalMinutes must be an integer from 1 to 59.');
+    }
+    windows.forEach(window => {
+      if (window.startHour < 0 || window.endHour > 23 || window.startHour > window.endHour) {
+        throw new Error(`Invalid keep-warm window from ${window.startHour} to ${window.endHour}. The hours must be from 0 to 23 in UTC, and windows can not span midnight.`);
+      }
+    });
+
+    // Wrap the handler of the app, the original handler is loaded by the wrapper
+    this.lambdaFunction.addLayers(new LayerVersion(this, 'WarmerLayer', {
+      layerVersionName: `${this.resourceIdPrefix}-warmer`,
+      description: `Handles the warmer events of the ${this.resourceIdPrefix} app.`,
+      code: Code.fromAsset(writeWarmerLayer()),
+    }));
+    (this.lambdaFunction.node.defaultChild as CfnFunction).handler = WARMER_HANDLER;
+    this.lambdaFunction.addEnvironment('WARMER_HANDLER', props.serverProps?.handler || 'index.handler');
+
+    const target = concurrency > 1 ? this.createWarmerFanOutFunction() : this.lambdaAlias ?? this.lambdaFunction;
+    const event: WarmerEvent = { nuxtWarmer: true, paths: keepWarm.paths || [], concurrency };
+
+    const schedules = windows.length
+      ? windows.map(window => Schedule.cron({
+          minute: `0/${intervalMinutes}`,
+          hour: `${window.startHour}-${window.endHour}`,
+          weekDay: window.weekDays,
+        }))
+      : [Schedule.rate(Duration.minutes(intervalMinutes))];
+
+    schedules.forEach((schedule, index) => {
+      const suffix = windows.length ? `-${index}` : '';
+      new Rule(this, `PingRule${suffix}`, {
+        ruleName: `${this.resourceIdPrefix}-pinger${suffix}`,
+        description: `Invokes the Lambda function of the ${this.resourceIdPrefix} app to keep ${concurrency === 1 ? 'an execution environment' : `${concurrency} execution environments`} warm.`,
+        enabled: true,
+        schedule: schedule,
+        targets: [new LambdaFunction(target, { event: RuleTargetInput.fromObject(event) })],
+      });
+    });
+  }
+
+  /**
+   * Creates the function that invokes the app function in parallel on warmer events.
+   *
+   * @private
+   */
+  private createWarmerFanOutFunction(): Function {
+    const appFunction = this.lambdaAlias ?? this.lambdaFunction;
+
+    const fanOutFunction = new Function(this, 'WarmerFunction', {
+      description: `Invokes the ${this.resourceIdPrefix} app in parallel to keep several execution environments warm.`,
+      runtime: Runtime.NODEJS_20_X,
+      architecture: Architecture.ARM_64,
+      handler: 'index.handler',
+      code: Code.fromInline(createWarmerFanOutCode()),
+      timeout: Duration.minutes(1),
+      memorySize: 128,
+      environment: {
+        FUNCTION_NAME: appFunction.functionArn,
+      },
+      logGroup: new LogGroup(this, 'WarmerLogGroup', {
+        retention: RetentionDays.ONE_WEEK,
+      }),
+    });
+    appFunction.grantInvoke(fanOutFunction);
+
+    return fanOutFunction;
+  }
+
+  /**
+   * Creates the target of the scheduled rules, which invokes the function with a request of the root path.
+   *
+   * @private
+   */
+  private createPingTarget(): LambdaFunction {
     const fakeApiGatewayEventData = {
         "version": "2.0",
         "routeKey": "GET /{proxy+}",
@@ -282,14 +1057,8 @@ export class ServerConstruct extends Construct {
         }
     };
 
-    new Rule(this, `PingRule`, {
-        ruleName: `${this.resourceIdPrefix}-pinger`,
-        description: `Pings the Lambda function of the ${this.resourceIdPrefix} app every 5 minutes to keep it warm.`,
-        enabled: true,
-        schedule: Schedule.rate(Duration.minutes(5)),
-        targets: [new LambdaFunction(this.lambdaFunction, {
-            event: RuleTargetInput.fromObject(fakeApiGatewayEventData)
-        })],
+    return new LambdaFunction(this.lambdaAlias ?? this.lambdaFunction, {
+        event: RuleTargetInput.fromObject(fakeApiGatewayEventData)
     });
   }
 }
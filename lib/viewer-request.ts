@@ -0,0 +1,51 @@
+/**
+ * A step of a composed viewer request function.
+ * The step function receives the event and returns a response to end the request, or nothing to continue.
+ */
+export interface ViewerRequestStep {
+  // The name of the step function, e.g. restrict
+  name: string;
+  // The code declaring the step function and its helpers.
+  code: string;
+  // The modules imported by the code, e.g. import crypto from 'crypto';
+  imports?: string[];
+}
+
+const IMPORT_PATTERN = /^import .+;\r?\n?/gm;
+
+/**
+ * Composes the steps and the handler of a viewer request function into a single CloudFront Function,
+ * as a behavior accepts a single function per event type. The steps run in order before the handler.
+ *
+ * @param steps - The steps to run before the handler.
+ * @param handlerCode - The code of a function with a `handler`, or undefined to pass the request to the origin.
+ */
+export function composeViewerRequestCode(steps: ViewerRequestStep[], handlerCode?: string): string {
+  if (!steps.length && handlerCode) return handlerCode;
+
+  // Move the imports to the top, without duplicates
+  const imports = new Set([
+    ...steps.flatMap(step => step.imports || []),
+    ...(handlerCode?.match(IMPORT_PATTERN) || []).map(line => line.trim()),
+  ]);
+
+  // Rename the handler of the wrapped function, which may be async
+  const nextHandler = handlerCode
+    ? handlerCode.replace(IMPORT_PATTERN, '').trim().replace(/(async\s+)?function handler\(/, '$1function nextHandler(')
+    : 'function nextHandler(event) {\n  return event.request;\n}';
+
+  const calls = steps.map(step => `  response = await ${step.name}(event);
+  if (response) return response;`).join('\n');
+
+  return `${[...imports].join('\n')}
+
+${steps.map(step => step.code.trim()).join('\n\n')}
+
+${nextHandler}
+
+async function handler(event) {
+  var response;
+${calls}
+  return nextHandler(event);
+}`.trim();
+}
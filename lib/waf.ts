@@ -0,0 +1,225 @@
+import { Stack, ArnFormat } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { RetentionDays, LogGroup } from 'aws-cdk-lib/aws-logs';
+import { CfnWebACL, CfnIPSet, CfnLoggingConfiguration } from 'aws-cdk-lib/aws-wafv2';
+import { NuxtProps, type WafProps } from '../stack/NuxtProps';
+
+// The AWS managed rule groups enabled by default
+const DEFAULT_MANAGED_RULES: NonNullable<WafProps['managedRules']> = ['common', 'knownBadInputs', 'ipReputation'];
+
+const MANAGED_RULE_GROUPS: Record<string, string> = {
+  common: 'AWSManagedRulesCommonRuleSet',
+  knownBadInputs: 'AWSManagedRulesKnownBadInputsRuleSet',
+  ipReputation: 'AWSManagedRulesAmazonIpReputationList',
+  anonymousIp: 'AWSManagedRulesAnonymousIpList',
+  sqlInjection: 'AWSManagedRulesSQLiRuleSet',
+};
+
+export class WafConstruct extends Construct {
+  private readonly resourceIdPrefix: string;
+  public webAcl: CfnWebACL;
+  public webAclArn: string;
+  public logGroup: LogGroup|undefined;
+
+  constructor(scope: Construct, id: string, props: NuxtProps) {
+    super(scope, id);
+
+    // CloudFront only accepts web ACLs created in us-east-1
+    if (Stack.of(this).region !== 'us-east-1') {
+      throw new Error('The web ACL of the CloudFront distribution must be created in us-east-1.');
+    }
+
+    // Set the resource prefix
+    this.resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+
+    this.webAcl = this.createWebAcl(props);
+    this.webAclArn = this.webAcl.attrArn;
+
+    // Log the requests inspected by the web ACL
+    if (props.waf?.logging !== false) {
+      this.logGroup = this.createLogging(props);
+    }
+  }
+
+  /**
+   * Creates the web ACL with the rules evaluated in order:
+   * the IP allowlist, the geo restrictions, the rate limits and the AWS managed rule groups.
+   *
+   * @private
+   */
+  private createWebAcl(props: NuxtProps): CfnWebACL {
+    const waf = props.waf as WafProps;
+    const rules: Omit<CfnWebACL.RuleProperty, 'priority'>[] = [];
+
+    // Block all requests from outside the allowlist, e.g. for staging environments
+    if (waf.allowIps && waf.allowIps.length > 0) {
+      rules.push(this.createBlockRule('AllowedIps', {
+        notStatement: { statement: this.createIpSetStatement(waf.allowIps) },
+      }));
+    }
+
+    // Block the requests by country of origin
+    if (waf.allowCountries && waf.allowCountries.length > 0) {
+      rules.push(this.createBlockRule('AllowedCountries', {
+        notStatement: { statement: { geoMatchStatement: { countryCodes: waf.allowCountries } } },
+      }));
+    }
+    if (waf.blockCountries && waf.blockCountries.length > 0) {
+      rules.push(this.createBlockRule('BlockedCountries', {
+        geoMatchStatement: { countryCodes: waf.blockCountries },
+      }));
+    }
+
+    // Limit the requests per IP to the server-rendered routes, i.e. the paths without file extension
+    rules.push(this.createBlockRule('ServerRateLimit', {
+      rateBasedStatement: {
+        limit: waf.rateLimit ?? 2000,
+        evaluationWindowSec: 300,
+        aggregateKeyType: 'IP',
+        scopeDownStatement: {
+          notStatement: {
+            statement: {
+              regexMatchStatement: {
+                regexString: '\\.[a-zA-Z0-9]+$',
+                fieldToMatch: { uriPath: {} },
+                textTransformations: [{ priority: 0, type: 'NONE' }],
+              },
+            },
+          },
+        },
+      },
+    }));
+
+    // Limit the requests per IP to the server paths, e.g. /api/*
+    rules.push(this.createBlockRule('ApiRateLimit', {
+      rateBasedStatement: {
+        limit: waf.apiRateLimit ?? 500,
+        evaluationWindowSec: 300,
+        aggregateKeyType: 'IP',
+        scopeDownStatement: this.anyOf((props.serverProps?.paths || ['/api/*']).map(pattern => ({
+          byteMatchStatement: {
+            searchString: pattern.replace(/\*+$/, ''),
+            positionalConstraint: pattern.endsWith('*') ? 'STARTS_WITH' : 'EXACTLY',
+            fieldToMatch: { uriPath: {} },
+            textTransformations: [{ priority: 0, type: 'NONE' }],
+          },
+        }))),
+      },
+    }));
+
+    // Add the AWS managed rule groups
+    for (const name of waf.managedRules ?? DEFAULT_MANAGED_RULES) {
+      const ruleGroupName = MANAGED_RULE_GROUPS[name];
+      rules.push({
+        name: ruleGroupName,
+        overrideAction: { none: {} },
+        statement: {
+          managedRuleGroupStatement: {
+            vendorName: 'AWS',
+            name: ruleGroupName,
+          },
+        },
+        visibilityConfig: this.getVisibilityConfig(ruleGroupName),
+      });
+    }
+
+    return new CfnWebACL(this, 'WebAcl', {
+      name: `${this.resourceIdPrefix}-waf`,
+      description: `Protects the CloudFront distribution of the ${this.resourceIdPrefix} app.`,
+      scope: 'CLOUDFRONT',
+      defaultAction: { allow: {} },
+      rules: rules.map((rule, priority) => ({ ...rule, priority })),
+      visibilityConfig: this.getVisibilityConfig('waf'),
+    });
+  }
+
+  /**
+   * Creates a rule that blocks the requests matching the statement.
+   *
+   * @private
+   */
+  private createBlockRule(name: string, statement: CfnWebACL.StatementProperty): Omit<CfnWebACL.RuleProperty, 'priority'> {
+    return {
+      name: name,
+      action: { block: {} },
+      statement: statement,
+      visibilityConfig: this.getVisibilityConfig(name),
+    };
+  }
+
+  /**
+   * Creates the statement that matches the IPv4 and IPv6 addresses of the IP sets.
+   *
+   * @private
+   */
+  private createIpSetStatement(addresses: string[]): CfnWebACL.StatementProperty {
+    const ipSets = (['IPV4', 'IPV6'] as const)
+      .map(version => ({
+        version,
+        addresses: addresses.filter(address => address.includes(':') === (version === 'IPV6')),
+      }))
+      .filter(({ addresses }) => addresses.length > 0)
+      .map(({ version, addresses }) => new CfnIPSet(this, `AllowedIps${version}`, {
+        name: `${this.resourceIdPrefix}-allowed-${version.toLowerCase()}`,
+        scope: 'CLOUDFRONT',
+        ipAddressVersion: version,
+        addresses: addresses,
+      }));
+
+    return this.anyOf(ipSets.map(ipSet => ({
+      ipSetReferenceStatement: { arn: ipSet.attrArn },
+    })));
+  }
+
+  /**
+   * Combines the statements with an OR statement, which requires at least two statements.
+   *
+   * @private
+   */
+  private anyOf(statements: CfnWebACL.StatementProperty[]): CfnWebACL.StatementProperty {
+    return statements.length === 1 ? statements[0] : { orStatement: { statements } };
+  }
+
+  /**
+   * Resolves the CloudWatch metrics and the sampled requests of a rule.
+   *
+   * @private
+   */
+  private getVisibilityConfig(name: string): CfnWebACL.VisibilityConfigProperty {
+    return {
+      cloudWatchMetricsEnabled: true,
+      metricName: `${this.resourceIdPrefix}-${name}`,
+      sampledRequestsEnabled: true,
+    };
+  }
+
+  /**
+   * Creates the log group and sends the logs of the web ACL to it.
+   * The name of the log group must start with aws-waf-logs-.
+   *
+   * @private
+   */
+  private createLogging(props: NuxtProps): LogGroup {
+    const logGroupName = `aws-waf-logs-${this.resourceIdPrefix}`;
+    const logGroup = new LogGroup(this, 'WafLogGroup', {
+      logGroupName: logGroupName,
+      retention: props.waf?.logRetention || RetentionDays.ONE_MONTH,
+    });
+
+    // WAF requires the ARN of the log group without the :* suffix
+    const logGroupArn = Stack.of(this).formatArn({
+      service: 'logs',
+      resource: 'log-group',
+      resourceName: logGroupName,
+      arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+    });
+
+    const loggingConfiguration = new CfnLoggingConfiguration(this, 'WafLogging', {
+      resourceArn: this.webAcl.attrArn,
+      logDestinationConfigs: [logGroupArn],
+    });
+    loggingConfiguration.node.addDependency(logGroup);
+
+    return logGroup;
+  }
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The handler of the wrapper in the Lambda layer, mounted at /opt
+export const WARMER_HANDLER = '/opt/nuxt-warmer/index.handler';
+
+// The time in milliseconds a warmer invocation keeps its execution environment busy
+const WARMER_DELAY = 100;
+
+/**
+ * The event of the scheduled warm-up, recognized by the wrapper of the handler.
+ */
+export interface WarmerEvent {
+  nuxtWarmer: true;
+  // The paths rendered once by every new execution environment
+  paths: string[];
+  // The number of parallel invocations of the fan-out function
+  concurrency: number;
+}
+
+/**
+ * Creates the code of the wrapper of the app handler.
+ * Warmer events return without rendering, except for the warm-up paths in a new execution environment.
+ * All other events are passed to the handler of the app, set by `WARMER_HANDLER`, e.g. index.handler.
+ */
+export function createWarmerHandlerCode(): string {
+  return `import fs from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import { pathToFileURL } from 'url';
+
+const STREAMING = Symbol.for('aws.lambda.runtime.handler.streaming');
+
+const appHandlerName = process.env.WARMER_HANDLER || 'index.handler';
+const separator = appHandlerName.lastIndexOf('.');
+const taskRoot = process.env.LAMBDA_TASK_ROOT || '/var/task';
+const moduleFile = ['.mjs', '.js', '.cjs']
+  .map(extension => path.resolve(taskRoot, appHandlerName.slice(0, separator) + extension))
+  .find(file => fs.existsSync(file));
+if (!moduleFile) {
+  throw new Error('Could not find the module of the handler ' + appHandlerName);
+}
+const app = await import(pathToFileURL(moduleFile).href);
+const appHandler = app[appHandlerName.slice(separator + 1)];
+
+let initialized = false;
+
+function toRequestEvent(uri) {
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: uri,
+    rawQueryString: '',
+    headers: { host: 'localhost', 'user-agent': 'nuxt-warmer' },
+    requestContext: { http: { method: 'GET', path: uri, protocol: 'HTTP/1.1', sourceIp: '127.0.0.1', userAgent: 'nuxt-warmer' } },
+    isBase64Encoded: false,
+  };
+}
+
+async function warm(event, render) {
+  // Render the paths once in every new execution environment to load the code of the pages
+  if (!initialized) {
+    initialized = true;
+    for (const uri of event.paths || []) {
+      await render(toRequestEvent(uri)).catch(err => console.warn('The warm-up of ' + uri + ' failed', err));
+    }
+  }
+  // Keep the execution environment busy, so the parallel invocations are served by different environments
+  await new Promise(resolve => setTimeout(resolve, event.delay || 0));
+  return { warm: true };
+}
+
+export const handler = appHandler[STREAMING] === 'response'
+  ? awslambda.streamifyResponse(async (event, responseStream, context) => {
+      if (event && event.nuxtWarmer) {
+        await warm(event, request => appHandler(request, new Writable({ write: (chunk, encoding, callback) => callback() }), context));
+        responseStream.end();
+        return;
+      }
+      initialized = true;
+      return appHandler(event, responseStream, context);
+    })
+  : async (event, context) => {
+      if (event && event.nuxtWarmer) {
+        return warm(event, request => appHandler(request, context));
+      }
+      initialized = true;
+      return appHandler(event, context);
+    };
+`;
+}
+
+/**
+ * Creates the code of the function that invokes the app function in parallel to keep several execution environments warm.
+ * The invocations wait for each other, as every warmer invocation keeps its environment busy for a moment.
+ */
+export function createWarmerFanOutCode(): string {
+  return `const { LambdaClient, InvokeCommand } = require('@aws-sdk/client-lambda');
+const lambda = new LambdaClient();
+
+exports.handler = async (event) => {
+  const payload = JSON.stringify({ ...event, delay: ${WARMER_DELAY} });
+  const results = await Promise.allSettled(Array.from({ length: event.concurrency }, () =>
+    lambda.send(new InvokeCommand({ FunctionName: process.env.FUNCTION_NAME, Payload: payload }))
+  ));
+
+  const failed = results.filter(result => result.status === 'rejected' || result.value.FunctionError);
+  if (failed.length) {
+    console.warn(failed.length + ' of ' + event.concurrency + ' warmer invocations failed', failed[0].reason || failed[0].value.FunctionError);
+  }
+};`;
+}
+
+/**
+ * Writes the wrapper of the handler into a temporary directory to be packaged as Lambda layer.
+ * The wrapper is part of a layer instead of the server bundle, so the build output is deployed unchanged.
+ *
+ * @returns The directory of the layer.
+ */
+export function writeWarmerLayer(): string {
+  const layerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nuxt-warmer-'));
+  const handlerPath = path.join(layerDir, path.relative('/opt', path.dirname(WARMER_HANDLER)), 'index.mjs');
+
+  fs.mkdirSync(path.dirname(handlerPath), { recursive: true });
+  fs.writeFileSync(handlerPath, createWarmerHandlerCode());
+
+  return layerDir;
+}
@@ -0,0 +1,25 @@
+import { Stack } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { type ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { NuxtProps } from './NuxtProps';
+import { CertificateConstruct } from '../lib'
+import { getDomainNames } from '../lib/domains';
+
+export class CertificateStack extends Stack {
+  public readonly certificate: ICertificate;
+
+  constructor(scope: Construct, id: string, props: NuxtProps) {
+    // CloudFront only accepts certificates issued in us-east-1
+    super(scope, id, {
+      env: { account: props.env.account, region: 'us-east-1' },
+      crossRegionReferences: true,
+      description: props.description,
+      tags: props.tags,
+    });
+
+    this.certificate = new CertificateConstruct(this, 'Certificate', props, {
+      domainNames: getDomainNames(props),
+      nameSuffix: 'global',
+    }).certificate;
+  }
+}
@@ -0,0 +1,66 @@
+import { Stack, RemovalPolicy } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { Bucket, BlockPublicAccess, ObjectOwnership, BucketEncryption } from 'aws-cdk-lib/aws-s3';
+import { NuxtProps } from './NuxtProps';
+import { ServerConstruct } from '../lib'
+
+export class FailoverStack extends Stack {
+  public readonly server: ServerConstruct;
+  public readonly replicaBucketName: string|undefined;
+
+  constructor(scope: Construct, id: string, props: NuxtProps) {
+    const region = props.failover?.region as string;
+
+    super(scope, id, {
+      env: { account: props.env.account, region },
+      crossRegionReferences: true,
+      description: props.description,
+      tags: props.tags,
+    });
+
+    if (region === props.env.region) {
+      throw new Error('The failover region must differ from the region of the stack.');
+    }
+    if (props.serverProps?.origin === 'functionUrl') {
+      throw new Error('Origin failover is not supported with the functionUrl origin.');
+    }
+    if (props.serverProps?.vpc && !props.failover?.vpc) {
+      throw new Error('The server in the failover region requires failover.vpc, as a VPC is bound to its region.');
+    }
+
+    // Create the server construct in the secondary region
+    this.server = new ServerConstruct(this, 'Server', {
+      ...props,
+      env: { account: props.env.account, region },
+      regionalCertificateArn: props.failover?.regionalCertificateArn,
+      serverProps: props.serverProps && { ...props.serverProps, vpc: props.failover?.vpc },
+    });
+
+    // Create the bucket the assets bucket is replicated to
+    if (props.failover?.replicateAssets) {
+      const resourceIdPrefix = `${props.application}-${props.service}-${props.environment}`.substring(0, 42);
+      this.replicaBucketName = `${resourceIdPrefix}-assets-replica`;
+      this.createReplicaBucket(this.replicaBucketName);
+    }
+  }
+
+  /**
+   * Creates the replica of the assets bucket in the secondary region.
+   * Its bucket policy is created by the ReplicaAccessStack, as it references the distribution, which depends on this stack.
+   *
+   * @private
+   */
+  private createReplicaBucket(bucketName: string): Bucket {
+    const bucket = new Bucket(this, 'ReplicaBucket', {
+      bucketName: bucketName,
+      encryption: BucketEncryption.S3_MANAGED,
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      objectOwnership: ObjectOwnership.BUCKET_OWNER_ENFORCED,
+      versioned: true,
+      removalPolicy: RemovalPolicy.DESTROY,
+      autoDeleteObjects: false
+    });
+
+    return bucket;
+  }
+}
@@ -1,11 +1,23 @@
-import { type StackProps } from "aws-cdk-lib";
-import { Runtime, Architecture} from 'aws-cdk-lib/aws-lambda';
+import { type StackProps, type TimeZone } from "aws-cdk-lib";
+import { Runtime, Architecture, type IFunction } from 'aws-cdk-lib/aws-lambda';
 import { type ResponseHeadersPolicyProps } from "aws-cdk-lib/aws-cloudfront";
+import { type RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { type IVpc, type SubnetType } from 'aws-cdk-lib/aws-ec2';
+import { type PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { type ITable } from 'aws-cdk-lib/aws-dynamodb';
+import { type IBucket } from 'aws-cdk-lib/aws-s3';
+import { type IQueue } from 'aws-cdk-lib/aws-sqs';
+import { type ITopic } from 'aws-cdk-lib/aws-sns';
+import { type Schedule } from 'aws-cdk-lib/aws-applicationautoscaling';
 
 export interface SourceProps {
   readonly owner?: string;
   readonly repo?: string;
   readonly branchOrRef?: string;
+  /**
+   * The ARN of a plaintext secret in AWS Secrets Manager holding a GitHub personal access token
+   * with the `repo` and `admin:repo_hook` scopes. Required to create the pipeline.
+   */
   readonly githubAccessTokenArn?: string;
 }
 
@@ -13,8 +25,249 @@ export interface BuildProps {
   readonly outputDir?: string;
   readonly include?: string[];
   readonly exclude?: string[];
+  /**
+   * The commands used by the pipeline to install the dependencies and build the app in `rootDir`.
+   * Defaults to `npm ci` and `npm run build`.
+   */
+  readonly installCommand?: string;
+  readonly buildCommand?: string;
+  /**
+   * The command used by the pipeline to deploy the stacks with the CDK CLI, run at the root of the repository after the installCommand.
+   * Defaults to `npx cdk deploy --require-approval never --app "npx tsx stack/index.ts" <stack id>`.
+   */
+  readonly deployCommand?: string;
+  // The Node.js version of the CodeBuild environment. Defaults to 20.
+  readonly nodeVersion?: string;
+  /**
+   * Prune the outdated hashed assets (`_nuxt/*`) after a successful deployment.
+   * The assets of the last `revisions` deployments and those younger than `days` are retained.
+   * Noncurrent object versions are expired after `days` as well.
+   */
+  readonly retention?: {
+    // Optional. Defaults to 3.
+    readonly revisions?: number;
+    // Optional. Defaults to 30.
+    readonly days?: number;
+  };
+}
+
+export interface ErrorPageProps {
+  // The HTTP status code returned by the origin, e.g. 403, 404, 500, 502, 503 or 504.
+  readonly httpStatus: number;
+  // The path to the page in the output directory, e.g. /500.html
+  readonly pagePath: string;
+  // Optional. The HTTP status code returned to the viewer. Defaults to httpStatus.
+  readonly responseHttpStatus?: number;
+  // Optional. The time in seconds CloudFront caches the error response. Defaults to 10 seconds.
+  readonly ttl?: number;
+}
+
+export interface CachedRouteProps {
+  // The path pattern of the route, e.g. /blog/*
+  readonly path: string;
+  // The time in seconds the response is cached when the origin sends no Cache-Control header.
+  readonly ttl: number;
+  // Optional. The time in seconds a stale response may be served while it is revalidated. Defaults to 0.
+  readonly staleWhileRevalidate?: number;
+  // Optional. The maximum time in seconds the response is cached, regardless of the Cache-Control header. Defaults to ttl + staleWhileRevalidate.
+  readonly maxTtl?: number;
+  // Optional. The HTTP methods allowed on the route. Only GET, HEAD and OPTIONS responses are cached. Defaults to 'read'.
+  readonly allowedMethods?: AllowedMethodsOption;
+  // Optional. The headers, cookies and query parameters to vary the cache on. Defaults to allowHeaders, allowCookies and the query parameter settings.
+  readonly cacheKey?: CacheKeyProps;
+  // Optional. The headers, cookies and query parameters to forward in addition to the cache key. Only the cache key is forwarded by default.
+  readonly forward?: ForwardProps;
+}
+
+export interface CacheKeyProps {
+  // Optional. The headers to vary the cache on.
+  readonly headers?: string[];
+  // Optional. The cookies to vary the cache on.
+  readonly cookies?: string[];
+  // Optional. The query parameters to vary the cache on.
+  readonly queryParams?: string[];
+  // Optional. Vary the cache on all query parameters except these. Ignored when queryParams is set.
+  readonly denyQueryParams?: string[];
+}
+
+// 'allViewerExceptHost' forwards all viewer headers except Host, 'geo' forwards the CloudFront geolocation headers
+export type ForwardHeadersPreset = 'allViewerExceptHost' | 'geo';
+
+export interface ForwardProps {
+  // Optional. A preset of headers to forward. 'allViewerExceptHost' can not be combined with headers.
+  readonly headerPreset?: ForwardHeadersPreset;
+  // Optional. The headers to forward, e.g. Referer or CloudFront-Is-Mobile-Viewer.
+  readonly headers?: string[];
+  // Optional. The cookies to forward, or 'all'.
+  readonly cookies?: string[] | 'all';
+  // Optional. The query parameters to forward, or 'all'.
+  readonly queryParams?: string[] | 'all';
+}
+
+export interface RouteRuleBehaviorProps {
+  // Optional. The headers, cookies and query parameters to vary the cache on. Only applies to swr and isr routes. Defaults to allowHeaders, allowCookies and the query parameter settings.
+  readonly cacheKey?: CacheKeyProps;
+  // Optional. The headers, cookies and query parameters to forward in addition to the cache key. Defaults to the forward settings of the behavior the route extends.
+  readonly forward?: ForwardProps;
+}
+
+export interface RouteRulesProps {
+  // Optional. The cache key and the forwarded values of the behaviors of the route rules, by route of the Nuxt routeRules, e.g. '/blog/**'.
+  readonly behaviors?: Record<string, RouteRuleBehaviorProps>;
+}
+
+// 'read' allows GET, HEAD and OPTIONS, 'all' allows POST, PUT, PATCH and DELETE as well
+export type AllowedMethodsOption = 'read' | 'all';
+
+export interface ConcurrencyScheduleProps {
+  // The schedule of the action, e.g. Schedule.cron({ weekDay: 'MON-FRI', hour: '7', minute: '0' })
+  readonly schedule: Schedule;
+  // Optional. The time zone of the schedule. Defaults to UTC.
+  readonly timeZone?: TimeZone;
+  // Optional. The new minimum number of provisioned execution environments.
+  readonly minCapacity?: number;
+  // Optional. The new maximum number of provisioned execution environments.
+  readonly maxCapacity?: number;
+}
+
+export interface ConcurrencyScalingProps {
+  // The minimum number of provisioned execution environments.
+  readonly minCapacity: number;
+  // The maximum number of provisioned execution environments.
+  readonly maxCapacity: number;
+  // Optional. The target utilization of the provisioned concurrency, from 0.1 to 0.9. Defaults to 0.7.
+  readonly utilizationTarget?: number;
+  // Optional. Scheduled actions changing the bounds, e.g. to scale up on weekday mornings and down to zero overnight.
+  readonly schedules?: ConcurrencyScheduleProps[];
+}
+
+export interface DeploymentProps {
+  /**
+   * How the traffic is shifted from the previous version to the new version of the `live` alias.
+   * - 'canary': shifts `percentage` of the traffic first, the remaining traffic after `interval` minutes.
+   * - 'linear': shifts `percentage` of the traffic every `interval` minutes.
+   * - 'allAtOnce': shifts all traffic at once.
+   */
+  readonly strategy: 'canary' | 'linear' | 'allAtOnce';
+  // Optional. The percentage of traffic shifted per step. Defaults to 10.
+  readonly percentage?: number;
+  // Optional. The minutes between the steps. Defaults to 5.
+  readonly interval?: number;
+  // Optional. The error rate in percent of the new version that rolls back the deployment. Defaults to 5.
+  readonly errorRateThreshold?: number;
+  // Optional. Functions invoked by CodeDeploy before and after the traffic is shifted.
+  readonly preTrafficHook?: IFunction;
+  readonly postTrafficHook?: IFunction;
+}
+
+export type RuntimeConfigValue = string | number | boolean | null | RuntimeConfigValue[] | { [key: string]: RuntimeConfigValue };
+
+export interface SecretProps {
+  // The ARN of the secret in AWS Secrets Manager.
+  readonly resource: string;
+  // Optional. The environment variable for the whole secret value.
+  readonly key?: string;
+  // Optional. Maps the fields of a JSON secret to environment variables, e.g. { username: 'NUXT_DB_USER' }
+  readonly fields?: { [field: string]: string; };
+}
+
+export interface ParameterProps {
+  // The environment variable for the parameter value.
+  readonly key: string;
+  // The name of the parameter in SSM Parameter Store, e.g. /my-app/api-url
+  readonly name: string;
+  // Optional. The ARN of the customer managed KMS key of a SecureString parameter.
+  readonly kmsKeyArn?: string;
+  // Optional. Whether the parameter is a SecureString. Defaults to true when kmsKeyArn is set.
+  readonly secure?: boolean;
+}
+
+export interface VpcProps {
+  // Optional. An existing VPC construct of the app.
+  readonly vpc?: IVpc;
+  // Optional. The ID of an existing VPC, e.g. vpc-0123456789abcdef0. The VPC is looked up in the account on synth.
+  readonly vpcId?: string;
+  // Optional. The name of an existing VPC to look up instead of its ID.
+  readonly vpcName?: string;
+  // Optional. The IDs of the subnets of the function. Defaults to the subnets of subnetType.
+  readonly subnetIds?: string[];
+  // Optional. The type of the subnets of the function. Defaults to private subnets with egress.
+  readonly subnetType?: SubnetType;
+  // Optional. The IDs of existing security groups of the function. A security group with all outbound traffic allowed is created by default.
+  readonly securityGroupIds?: string[];
+  /**
+   * Optional. Create VPC endpoints to reach the services without a NAT gateway:
+   * an interface endpoint for Secrets Manager and SSM, a gateway endpoint for S3.
+   */
+  readonly endpoints?: Array<'secretsManager' | 'ssm' | 's3'>;
+}
+
+export interface KeepWarmWindowProps {
+  // Optional. The days of the week in the cron format, e.g. MON-FRI. Defaults to every day.
+  readonly weekDays?: string;
+  // The first hour of the window in UTC, from 0 to 23.
+  readonly startHour: number;
+  // The last hour of the window in UTC, from startHour to 23.
+  readonly endHour: number;
+}
+
+export interface KeepWarmProps {
+  // Optional. The number of execution environments kept warm by parallel invocations. Defaults to 1.
+  readonly concurrency?: number;
+  // Optional. The interval of the warm-up in minutes, from 1 to 59. Defaults to 5.
+  readonly intervalMinutes?: number;
+  // Optional. The paths rendered once by every new execution environment, e.g. ['/', '/products']. Defaults to none.
+  readonly paths?: string[];
+  // Optional. Only keep the function warm within these time windows, e.g. during business hours. Defaults to always.
+  readonly windows?: KeepWarmWindowProps[];
+}
+
+export interface OriginVerifyProps {
+  // Optional. The number of days between the rotations of the secret header value. Defaults to 30.
+  readonly rotationDays?: number;
+  /**
+   * Optional. Disable the default execute-api endpoint of the HTTP API.
+   * CloudFront then reaches the HTTP API at the mapped domain and forwards the Host header.
+   * Requires the domain with a regional certificate, and can not be combined with domainAliases or prerendered pages. Defaults to false.
+   */
+  readonly disableExecuteApiEndpoint?: boolean;
+}
+
+export type BindingAccess = 'read' | 'write' | 'readWrite';
+
+export interface TableBindingProps {
+  // The runtimeConfig key of the table name, e.g. ordersTable for NUXT_ORDERS_TABLE
+  readonly key: string;
+  readonly table: ITable;
+  // Optional. Defaults to readWrite.
+  readonly access?: BindingAccess;
+}
+
+export interface BucketBindingProps {
+  // The runtimeConfig key of the bucket name, e.g. uploadsBucket for NUXT_UPLOADS_BUCKET
+  readonly key: string;
+  readonly bucket: IBucket;
+  // Optional. Defaults to readWrite.
+  readonly access?: BindingAccess;
+}
+
+export interface QueueBindingProps {
+  // The runtimeConfig key of the queue URL, e.g. jobsQueueUrl for NUXT_JOBS_QUEUE_URL
+  readonly key: string;
+  readonly queue: IQueue;
+  // Optional. read consumes, write sends the messages. Defaults to write.
+  readonly access?: BindingAccess;
+}
+
+export interface TopicBindingProps {
+  // The runtimeConfig key of the topic ARN, e.g. eventsTopicArn for NUXT_EVENTS_TOPIC_ARN
+  readonly key: string;
+  // The function is allowed to publish to the topic.
+  readonly topic: ITopic;
 }
 
+export type BindingProps = TableBindingProps | BucketBindingProps | QueueBindingProps | TopicBindingProps;
+
 export interface ServerProps {
   readonly runtime?: Runtime;
   readonly architecture?: Architecture;
@@ -26,21 +279,235 @@ export interface ServerProps {
   readonly memorySize?: number;
   readonly timeout?: number;
   readonly tracing?: boolean;
+  // Optional. The retention of the function logs. Defaults to one month.
+  readonly logRetention?: RetentionDays;
+  // Optional. The format of the function logs. 'json' enables structured logs with log levels. Defaults to 'text'.
+  readonly logFormat?: 'text' | 'json';
   readonly reservedConcurrency?: number;
   readonly provisionedConcurrency?: number;
+  /**
+   * Optional. Scale the provisioned concurrency of the `live` alias with Application Auto Scaling,
+   * by its utilization and on a schedule. Can not be combined with provisionedConcurrency.
+   */
+  readonly provisionedConcurrencyScaling?: ConcurrencyScalingProps;
+  /**
+   * Optional. The HTTP methods CloudFront forwards to the server by default.
+   * 'all' allows form posts, auth callbacks and server routes outside of `paths`. Defaults to 'read'.
+   */
+  readonly allowedMethods?: AllowedMethodsOption;
+  /**
+   * Shift traffic gradually to new versions of the function with AWS CodeDeploy
+   * and roll back automatically when the error rate of the new version is too high.
+   */
+  readonly deployment?: DeploymentProps;
   readonly variables?: Array<{ [key: string]: string; }>;
+  /**
+   * Set the keys of the Nuxt runtimeConfig. The keys are passed as the NUXT_* environment variables read by Nitro.
+   * The keys must be declared in the runtimeConfig of your nuxt.config.ts.
+   *
+   *   runtimeConfig: {
+   *     apiSecret: '123',               // NUXT_API_SECRET
+   *     public: { apiBase: '/api' },   // NUXT_PUBLIC_API_BASE
+   *   }
+   */
+  readonly runtimeConfig?: { [key: string]: RuntimeConfigValue; };
+  /**
+   * Optional. The runtimeConfig keys that must be set by the variables, the runtimeConfig, the env file, the secrets or the parameters,
+   * e.g. ['apiSecret', 'public.apiBase']. The synth fails when a key is missing.
+   */
+  readonly requiredRuntimeConfig?: string[];
+  /**
+   * Optional. Load the variables of a dotenv file in the rootDir.
+   * `true` loads `.env.<environment>`, a string loads the file at the path relative to the rootDir.
+   */
+  readonly envFile?: boolean | string;
   /**
    * Create a secret with AWS Secrets Manager and pass them to the Lambda function as environment variables.
    * The library will create permission for Lambda to access the secret value.
    * 
    *   secrets: [
-   *     { key: 'PUBLIC_EXAMPLE', resource: 'your-secret-arn' }
+   *     { key: 'PUBLIC_EXAMPLE', resource: 'your-secret-arn' },
+   *     { resource: 'your-json-secret-arn', fields: { username: 'NUXT_DB_USER', password: 'NUXT_DB_PASSWORD' } }
    *   ]
    */
-  readonly secrets?: { key: string; resource: string; }[];
+  readonly secrets?: SecretProps[];
+  /**
+   * Pass parameters of SSM Parameter Store to the Lambda function as environment variables.
+   * SecureString parameters require the `runtime` resolution.
+   *
+   *   parameters: [
+   *     { key: 'NUXT_API_URL', name: '/my-app/api-url' }
+   *   ]
+   */
+  readonly parameters?: ParameterProps[];
+  /**
+   * How the secrets and parameters are resolved.
+   * - 'deploy': the values are resolved by CloudFormation and stored in the function configuration (default).
+   * - 'runtime': only the ARNs and names are passed to the function, the values are fetched at cold start
+   *   through the AWS Parameters and Secrets Lambda Extension. Not supported with `dockerFile`.
+   */
+  readonly resolveSecrets?: 'deploy' | 'runtime';
+  // Optional. The interval in seconds to refresh the values resolved at runtime on process.env. The runtimeConfig read at startup keeps the values of the cold start. Defaults to 300.
+  readonly secretsRefreshInterval?: number;
+  /**
+   * How CloudFront reaches the Lambda function.
+   * - 'apiGateway': through an HTTP API (default).
+   * - 'functionUrl': through a Lambda Function URL that only accepts requests signed by CloudFront (OAC).
+   */
+  readonly origin?: 'apiGateway' | 'functionUrl';
+  /**
+   * Optional. Only accept the requests of CloudFront at the HTTP API.
+   * CloudFront sends a secret header rotated by AWS Secrets Manager, which a Lambda authorizer of the HTTP API verifies.
+   * Not required with the functionUrl origin, which only accepts requests signed by CloudFront.
+   */
+  readonly originVerify?: OriginVerifyProps;
+  /**
+   * Stream the responses with the `RESPONSE_STREAM` invoke mode of the Function URL.
+   * Requires the `functionUrl` origin and `nitro.awsLambda.streaming` in your nuxt.config.ts.
+   */
+  readonly streaming?: boolean;
   readonly dockerFile?: string;
   readonly dockerBuildArgs?: string[];
-  readonly keepWarm?: boolean;
+  /**
+   * Optional. Invoke the function on a schedule to keep execution environments warm.
+   * The warmer events return without rendering. Ignored when provisionedConcurrency, or the minCapacity of provisionedConcurrencyScaling and its schedules, is at least 1.
+   * `true` keeps one environment warm every 5 minutes, container image functions only support `true`.
+   */
+  readonly keepWarm?: boolean | KeepWarmProps;
+  /**
+   * Optional. Attach the function to a VPC to reach private resources, e.g. RDS, ElastiCache or internal services.
+   * The function only reaches the internet and the AWS services through a NAT gateway or VPC endpoints.
+   */
+  readonly vpc?: VpcProps;
+  /**
+   * Optional. Grant the function access to resources and pass their names to the runtimeConfig.
+   *
+   *   bindings: [
+   *     { key: 'ordersTable', table: ordersTable },                // NUXT_ORDERS_TABLE
+   *     { key: 'uploadsBucket', bucket: uploadsBucket, access: 'write' },
+   *   ]
+   */
+  readonly bindings?: BindingProps[];
+  // Optional. Additional statements of the function role, e.g. to send emails with SES.
+  readonly policyStatements?: PolicyStatement[];
+}
+
+export interface FailoverProps {
+  // The AWS region of the secondary deployment of the server.
+  readonly region: string;
+  // Optional. The ARN of the certificate to use for API Gateway in the secondary region.
+  readonly regionalCertificateArn?: string;
+  // Optional. Replicate the assets bucket to the secondary region. Defaults to false.
+  readonly replicateAssets?: boolean;
+  // Optional. The VPC of the server in the secondary region. Required when the primary server is attached to a VPC.
+  readonly vpc?: VpcProps;
+}
+
+export interface WafProps {
+  // Optional. The ARN of an existing WAFv2 web ACL with the CLOUDFRONT scope. No web ACL is created when set.
+  readonly webAclArn?: string;
+  // Optional. The AWS managed rule groups. Defaults to ['common', 'knownBadInputs', 'ipReputation'].
+  readonly managedRules?: Array<'common' | 'knownBadInputs' | 'ipReputation' | 'anonymousIp' | 'sqlInjection'>;
+  // Optional. The maximum requests per IP in 5 minutes to the server-rendered routes. Defaults to 2000.
+  readonly rateLimit?: number;
+  // Optional. The maximum requests per IP in 5 minutes to the server paths, e.g. /api/*. Defaults to 500.
+  readonly apiRateLimit?: number;
+  // Optional. Only allow requests from these countries, e.g. ['US', 'DE'].
+  readonly allowCountries?: string[];
+  // Optional. Block requests from these countries.
+  readonly blockCountries?: string[];
+  // Optional. Only allow requests from these IPv4 and IPv6 CIDR ranges, e.g. ['203.0.113.0/24'] for staging environments.
+  readonly allowIps?: string[];
+  // Optional. Send the logs to the aws-waf-logs-<app> log group in us-east-1. Defaults to true.
+  readonly logging?: boolean;
+  // Optional. Defaults to one month.
+  readonly logRetention?: RetentionDays;
+}
+
+export interface MonitoringProps {
+  // Optional. The email addresses notified by the alarms.
+  readonly alarmEmails?: string[];
+  // Optional. The ARN of an existing SNS topic notified by the alarms. A topic is created by default.
+  readonly alarmTopicArn?: string;
+  // Optional. The error rate in percent of the Lambda function, the HTTP API and CloudFront that triggers an alarm. Defaults to 5.
+  readonly errorRateThreshold?: number;
+  // Optional. The number of throttled invocations per minute that triggers an alarm. Defaults to 1.
+  readonly throttlesThreshold?: number;
+  // Optional. The p99 duration in milliseconds of the Lambda function that triggers an alarm. Defaults to 80% of the timeout.
+  readonly durationThreshold?: number;
+  // Optional. Create the CloudWatch dashboard. Defaults to true.
+  readonly dashboard?: boolean;
+  // Optional. Enable the additional CloudFront metrics, e.g. the cache hit rate, at extra cost. Defaults to false.
+  readonly cloudFrontAdditionalMetrics?: boolean;
+}
+
+export interface ProtectionProps {
+  /**
+   * Optional. The ARN of the secret in AWS Secrets Manager with the basic auth credentials,
+   * either as JSON `{ "username": "...", "password": "..." }` or as plaintext `username:password`.
+   */
+  readonly basicAuthSecretArn?: string;
+  // Optional. The IPv4 and IPv6 CIDR ranges allowed without credentials. Other requests are denied when no basic auth is set.
+  readonly allowIps?: string[];
+  // Optional. The realm of the basic auth prompt. Defaults to Restricted.
+  readonly realm?: string;
+}
+
+export interface EdgeRedirectProps {
+  // The path of the request, e.g. /old-page. Use * to match a segment and a trailing /** to match the rest of the path.
+  readonly source: string;
+  // The path or URL to redirect to. A destination ending with /** receives the rest of the path matched by the source.
+  readonly destination: string;
+  // Optional. Defaults to 301.
+  readonly statusCode?: 301 | 302 | 307 | 308;
+}
+
+export interface EdgeRewriteProps {
+  // The path of the request, e.g. /pricing. Use * to match a segment and a trailing /** to match the rest of the path.
+  readonly source: string;
+  // The path served instead, e.g. /pricing-b
+  readonly destination: string;
+  // The request header that enables the rewrite, e.g. x-variant
+  readonly header: string;
+  // Optional. The header value that enables the rewrite. Any value by default.
+  readonly value?: string;
+}
+
+export interface EdgeLocaleProps {
+  // The locale codes of the app, e.g. ['en', 'de', 'fr']. Must match the locales of @nuxtjs/i18n.
+  readonly locales: string[];
+  readonly defaultLocale: string;
+  // Optional. Whether the default locale is prefixed as well. Defaults to 'prefix_except_default'.
+  readonly strategy?: 'prefix' | 'prefix_except_default';
+  // Optional. Redirect only the root path or all paths without a locale prefix. Defaults to 'root'.
+  readonly redirectOn?: 'root' | 'all';
+  // Optional. The cookie with the locale chosen by the user, which takes precedence over Accept-Language. Defaults to i18n_redirected.
+  readonly cookieKey?: string;
+}
+
+export interface EdgeRulesProps {
+  // Optional. Redirect the other domain names of the distribution to this domain name, e.g. www.example.com. Must be the domain or one of the domainAliases.
+  readonly canonicalHost?: string;
+  // Optional. Add or remove the trailing slash of the page paths.
+  readonly trailingSlash?: 'add' | 'remove';
+  // Optional. Redirect the visitors to their locale detected from the Accept-Language header.
+  readonly locale?: EdgeLocaleProps;
+  // Optional. Redirects of legacy paths. Large tables are stored in a CloudFront KeyValueStore.
+  readonly redirects?: EdgeRedirectProps[];
+  // Optional. Rewrites of paths based on a request header, e.g. for A/B tests.
+  readonly rewrites?: EdgeRewriteProps[];
+}
+
+export interface PreviewProps {
+  // The ID of the pull request or the name of the branch, e.g. pr-123 or feature/login.
+  readonly id: string | number;
+  // Optional. The parent domain of the previews, e.g. preview.example.com. Defaults to preview.<domain>.
+  readonly domain?: string;
+  /**
+   * Optional. Use the globalCertificateArn and regionalCertificateArn of the app, which must cover the wildcard domain of the previews, e.g. *.preview.example.com.
+   * Set to false to issue the certificates of every preview in the hosted zone instead. Defaults to true.
+   */
+  readonly useAppCertificates?: boolean;
 }
 
 export interface NuxtProps extends StackProps {
@@ -83,7 +550,8 @@ export interface NuxtProps extends StackProps {
     readonly rootDir?: string;
 
     /**
-     * Configure your Github repository
+     * Configure your Github repository.
+     * When set, a CodePipeline is created that builds and deploys the app on every push to the branch.
      */
     readonly sourceProps?: SourceProps;
   
@@ -97,6 +565,49 @@ export interface NuxtProps extends StackProps {
      */
     readonly serverProps?: ServerProps;
 
+    /**
+     * Optional. Deploy the server to a secondary region.
+     * CloudFront fails over to the secondary region when the primary region responds with a 5xx error.
+     * Not supported with the `functionUrl` origin. The pipeline deploys the stacks of both regions with the CDK CLI.
+     */
+    readonly failover?: FailoverProps;
+
+    /**
+     * Optional. Deploy a short-lived preview of the app for a pull request or branch, e.g. at pr-123.preview.example.com.
+     * The preview shares the certificates and the hosted zone of the app, or issues its own certificates without them,
+     * runs without provisioned concurrency and keep-warm, and deletes all its resources when the stacks are destroyed.
+     */
+    readonly preview?: PreviewProps;
+
+    /**
+     * Optional. Create a CloudWatch dashboard and alarms for the Lambda function, the HTTP API and the CloudFront distribution.
+     */
+    readonly monitoring?: MonitoringProps;
+
+    /**
+     * Optional. Protect the CloudFront distribution with an AWS WAF web ACL.
+     * The web ACL is created in us-east-1, in a separate stack if the app is deployed to another region.
+     */
+    readonly waf?: WafProps;
+
+    /**
+     * Optional. Restrict the access to the app with basic auth or an IP allowlist, e.g. for staging and preview environments.
+     * The restriction is checked by a CloudFront Function on every behavior of the distribution.
+     */
+    readonly protection?: ProtectionProps;
+
+    /**
+     * Optional. Redirect and rewrite the requests of the pages at the edge, before they reach the cache.
+     * The rules are compiled into a CloudFront Function on the viewer requests of the page behaviors.
+     */
+    readonly edgeRules?: EdgeRulesProps;
+
+    /**
+     * Optional. Add the `X-Robots-Tag: noindex` header to the responses to keep the app out of search engines.
+     * Defaults to true, unless the environment is `production`.
+     */
+    readonly noindex?: boolean;
+
     /**
      * Custom response headers 
      */
@@ -110,22 +621,46 @@ export interface NuxtProps extends StackProps {
      */
     readonly errorPagePath?: string;
 
+    /**
+     * Optional. Map error status codes returned by the origins to pages in the output directory.
+     * Entries override the errorPagePath and maintenancePagePath for the same status code.
+     *
+     *   errorPages: [
+     *     { httpStatus: 500, pagePath: '/500.html', ttl: 0 }
+     *   ]
+     */
+    readonly errorPages?: ErrorPageProps[];
+
+    /**
+     * Optional. The path to a static maintenance page in the output directory. e.g. /maintenance.html
+     * Served by CloudFront with a 503 status when the server origin fails with a 502, 503 or 504.
+     */
+    readonly maintenancePagePath?: string;
+
     /**
      * Domains with Route53 and ACM
      */
 
     // Optional. The domain (without the protocol) at which the app shall be publicly available.
     readonly domain?: string;
+
+    // Optional. Additional domains of the app, e.g. www.example.com. Served by the CloudFront distribution as well.
+    readonly domainAliases?: string[];
   
     // Optional. The ARN of the certificate to use on CloudFront for the app to make it accessible via HTTPS.
+    // Issued in us-east-1 for the domain and its aliases when omitted and a hosted zone is set.
     readonly globalCertificateArn?: string;
 
     // Optional. The ARN of the certificate to use for API Gateway for the app to make it accessible via HTTPS.
+    // Issued for the domain when omitted and a hosted zone is set.
     readonly regionalCertificateArn?: string;
   
-    // Optional. The ID of the hosted zone to create a DNS record for the specified domain.
+    // Optional. The ID of the hosted zone to create the DNS records and validate the certificates of the domains.
     readonly hostedZoneId?: string;
 
+    // Optional. The name of the hosted zone, e.g. example.com. The zone is looked up by its name when no hostedZoneId is set.
+    readonly hostedZoneName?: string;
+
 
     /**
      * Optional. An array of headers to include in the cache key and pass to the origin on requests.
@@ -156,4 +691,42 @@ export interface NuxtProps extends StackProps {
      */
     readonly denyQueryParams?: string[];
 
+    /**
+     * Optional. The headers, cookies and query parameters to forward to the uncached server routes without adding them to the cache key,
+     * e.g. a session cookie or the CloudFront geolocation headers.
+     * Defaults to the values of the cache key only.
+     */
+    readonly forward?: ForwardProps;
+
+    /**
+     * Optional. Cache the server-rendered responses of the routes at the edge.
+     * CloudFront respects the `s-maxage` and `stale-while-revalidate` directives of the `Cache-Control` header
+     * emitted by the Nitro `routeRules` (e.g. `{ swr: 3600 }` or `{ isr: true }`) within the bounds of each route.
+     *
+     *   cachedRoutes: [
+     *     { path: '/blog/*', ttl: 3600, staleWhileRevalidate: 86400 }
+     *   ]
+     */
+    readonly cachedRoutes?: CachedRouteProps[];
+
+    /**
+     * Optional. Read the Nuxt `routeRules` from the server build and the prerendered routes from the public output directory,
+     * or both from the optional route manifest of the build output (.output/route-manifest.json), and create the CloudFront behaviors: prerendered routes are served from the S3 bucket, `swr`/`isr` routes are cached at the edge,
+     * `redirect` routes are redirected at the edge and `headers`/`cors` routes get their own response headers policy.
+     * The rules of all routes (`/**`) apply to the default behavior.
+     * Requires the Nuxt build to run before the synth. Defaults to false.
+     *
+     *   routeRules: {
+     *     behaviors: { '/blog/**': { cacheKey: { queryParams: ['page'] } } }
+     *   }
+     */
+    readonly routeRules?: boolean | RouteRulesProps;
+
+    /**
+     * Optional. Serve the prerendered HTML pages of the build output (e.g. /about/index.html) from the S3 bucket.
+     * Extensionless URIs of prerendered pages are rewritten to their index.html, everything else falls back to the server.
+     * Requires the Nuxt build to run before the synth. Defaults to false.
+     */
+    readonly prerender?: boolean;
+
 }
\ No newline at end of file
@@ -1,63 +1,158 @@
-import { Stack } from 'aws-cdk-lib';
+import { Stack, RemovalPolicies } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
-import { CfnDistribution } from "aws-cdk-lib/aws-cloudfront";
+import { type Distribution, type CachePolicy, type OriginRequestPolicy } from "aws-cdk-lib/aws-cloudfront";
+import { type ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { type Function, type Alias } from 'aws-cdk-lib/aws-lambda';
+import { type HttpApi } from 'aws-cdk-lib/aws-apigatewayv2';
+import { type Bucket } from 'aws-cdk-lib/aws-s3';
 import { NuxtProps } from './NuxtProps';
-import { ServerConstruct, ClientConstruct } from '../lib'
+import { FailoverStack } from './FailoverStack';
+import { WafStack } from './WafStack';
+import { CertificateStack } from './CertificateStack';
+import { ReplicaAccessStack } from './ReplicaAccessStack';
+import { ServerConstruct, ClientConstruct, PipelineConstruct, WafConstruct, MonitoringConstruct, CertificateConstruct } from '../lib'
+import { getPreviewProps } from '../lib/preview';
+import { getDomainNames, shouldIssueGlobalCertificate } from '../lib/domains';
 
 export class NuxtStack extends Stack {
+  // The Lambda function, its alias and the HTTP API of the server
+  public readonly server: ServerConstruct;
+  // The CloudFront distribution and the S3 bucket of the static assets
+  public readonly client: ClientConstruct;
+  // The Lambda function that renders the app
+  public readonly lambdaFunction: Function;
+  // The `live` alias of the function, when provisioned concurrency or gradual deployments are used
+  public readonly lambdaAlias: Alias | undefined;
+  // The HTTP API in front of the function, unless the functionUrl origin is used
+  public readonly httpApi: HttpApi | undefined;
+  public readonly distribution: Distribution;
+  public readonly staticAssetsBucket: Bucket;
+  // The cache policy of the server-rendered routes
+  public readonly serverCachePolicy: CachePolicy;
+  // The cache policy of the server-rendered routes with prerendered pages, if any
+  public readonly pagesCachePolicy: CachePolicy | undefined;
+  // The cache policies of the cached routes and the route rules, by path pattern
+  public readonly routeCachePolicies: Record<string, CachePolicy>;
+  // The origin request policy of the uncached server-rendered routes
+  public readonly serverOriginRequestPolicy: OriginRequestPolicy;
 
-  constructor(scope: Construct, id: string, props: NuxtProps) {
-    super(scope, id, props);
+  constructor(scope: Construct, id: string, nuxtProps: NuxtProps) {
+    // Derive the resource names, the domain and the certificates of the preview environment
+    const props = nuxtProps.preview ? getPreviewProps(nuxtProps) : nuxtProps;
+
+    super(scope, id, {
+      ...nuxtProps,
+      // The origin of the failover server, the web ACL and the certificate in us-east-1 are referenced across regions
+      crossRegionReferences: props.crossRegionReferences ?? (
+        !!props.failover ||
+        (!!props.waf && !props.waf.webAclArn && props.env?.region !== 'us-east-1') ||
+        (shouldIssueGlobalCertificate(props) && props.env?.region !== 'us-east-1')
+      ),
+    });
 
     // Check mandatory properties
-    if (!props?.env) {
+    if (!nuxtProps?.env) {
       throw new Error('Must provide AWS account and region.');
     }
-    if (!props.application || !props.environment || !props.service) {
+    if (!nuxtProps.application || !nuxtProps.environment || !nuxtProps.service) {
       throw new Error('Mandatory stack properties missing.');
     }
 
     // Create the server construct
     const server = new ServerConstruct(this, 'Server', props);
 
+    // Create the server in the secondary region for the origin failover
+    const failover = props.failover ? new FailoverStack(scope, `${id}-failover`, props) : undefined;
+    if (failover) {
+      this.addDependency(failover);
+    }
+
+    // The stacks in us-east-1, torn down with the preview
+    const globalStacks: Stack[] = [];
+
+    // Create the web ACL in us-east-1, as required by CloudFront
+    let webAclArn = props.waf?.webAclArn;
+    if (props.waf && !webAclArn) {
+      if (props.env.region === 'us-east-1') {
+        webAclArn = new WafConstruct(this, 'Waf', props).webAclArn;
+      } else {
+        const wafStack = new WafStack(scope, `${id}-waf`, props);
+        this.addDependency(wafStack);
+        globalStacks.push(wafStack);
+        webAclArn = wafStack.waf.webAclArn;
+      }
+    }
+
+    // Issue the certificate of the distribution in us-east-1, as required by CloudFront
+    let certificate: ICertificate | undefined;
+    if (shouldIssueGlobalCertificate(props)) {
+      if (props.env.region === 'us-east-1') {
+        certificate = new CertificateConstruct(this, 'Certificate', props, {
+          domainNames: getDomainNames(props),
+          nameSuffix: 'global',
+        }).certificate;
+      } else {
+        const certificateStack = new CertificateStack(scope, `${id}-certificate`, props);
+        this.addDependency(certificateStack);
+        globalStacks.push(certificateStack);
+        certificate = certificateStack.certificate;
+      }
+    }
+
     // Create the client construct
     const client = new ClientConstruct(this, 'Client', props, {
       httpOrigin: server?.httpOrigin,
+      failoverOrigin: failover?.server.httpOrigin,
+      groupOrigin: server.groupOrigin,
+      replicaBucketName: failover?.replicaBucketName,
+      webAclArn: webAclArn,
+      certificate: certificate,
     });
 
-    /**
-     * Origin Access Control (OAC) patch
-     * Adapted from: https://github.com/awslabs/cloudfront-hosting-toolkit
-     * 
-     * Patch is needed because no native support from AWS.
-     * https://github.com/aws/aws-cdk/issues/21771
-     */
-    const cfnDistribution = client?.cdn.node.defaultChild as CfnDistribution;
-    cfnDistribution.addOverride(
-      "Properties.DistributionConfig.Origins.1.S3OriginConfig.OriginAccessIdentity",
-      ""
-    );
-    cfnDistribution.addPropertyOverride(
-      "DistributionConfig.Origins.1.OriginAccessControlId",
-      client.originAccessControl?.getAtt("Id")
-    );
-
-    // remove the second statement entirely (the one with Principal.CanonicalUser)
-    // const comS3PolicyOverride = client?.staticAssetsBucket.node.findChild("Policy").node.defaultChild as CfnBucketPolicy;
-    // const statements = comS3PolicyOverride.policyDocument.statements;
-    // statements.splice(1, 1);
-
-    const s3OriginNode = client?.cdn.node
-      .findAll()
-      .filter((child) => child.node.id === "S3Origin");
-
-    if (s3OriginNode && s3OriginNode.length > 0) {
-      const resourceNode = s3OriginNode[0].node.findChild("Resource");
-      if (resourceNode) {
-        resourceNode.node.tryRemoveChild("Resource")
+    // Expose the resources to extend the app, e.g. with behaviors, alarms or permissions
+    this.server = server;
+    this.client = client;
+    this.lambdaFunction = server.lambdaFunction;
+    this.lambdaAlias = server.lambdaAlias;
+    this.httpApi = server.apiGateway;
+    this.distribution = client.cdn;
+    this.staticAssetsBucket = client.staticAssetsBucket;
+    this.serverCachePolicy = client.serverCachePolicy;
+    this.pagesCachePolicy = client.pagesCachePolicy;
+    this.routeCachePolicies = client.routeCachePolicies;
+    this.serverOriginRequestPolicy = client.serverOriginRequestPolicy;
+
+    // Grant the distribution access to the replica of the assets bucket in the secondary region
+    const replicaAccess = failover?.replicaBucketName
+      ? new ReplicaAccessStack(scope, `${id}-replica-access`, props, {
+          replicaBucketName: failover.replicaBucketName,
+          distribution: client.cdn,
+        })
+      : undefined;
+
+    // Create the pipeline to build and deploy the app on every push
+    if (props.sourceProps) {
+      new PipelineConstruct(this, 'Pipeline', props, {
+        // The stacks this stack depends on, e.g. the failover stack, are deployed with it
+        stackIds: [id, ...(replicaAccess ? [replicaAccess.node.id] : [])],
+      });
+    }
+
+    // Create the dashboard and the alarms
+    if (props.monitoring) {
+      new MonitoringConstruct(this, 'Monitoring', props, {
+        lambdaFunction: server.lambdaFunction,
+        httpApi: server.apiGateway,
+        cdn: client.cdn,
+      });
+    }
+
+    // Tear down all resources of the preview, including the log groups and the stacks in us-east-1, when the stacks are destroyed
+    if (props.preview) {
+      for (const stack of [this, ...globalStacks]) {
+        RemovalPolicies.of(stack).destroy();
       }
-    };
-    // End of OAC patch
+    }
 
   }
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { Stack, RemovalPolicy } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { PolicyStatement, Effect, ServicePrincipal, AnyPrincipal } from "aws-cdk-lib/aws-iam";
+import { Bucket, BucketPolicy } from 'aws-cdk-lib/aws-s3';
+import { type IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { NuxtProps } from './NuxtProps';
+import { DEPLOYMENT_MANIFEST_PREFIX } from '../lib/assets-cleanup';
+
+export interface ReplicaAccessProps {
+  // The name of the replica of the assets bucket in the secondary region.
+  replicaBucketName: string;
+  // The distribution reading the replica.
+  distribution: IDistribution;
+}
+
+export class ReplicaAccessStack extends Stack {
+  public readonly bucketPolicy: BucketPolicy;
+
+  constructor(scope: Construct, id: string, props: NuxtProps, accessProps: ReplicaAccessProps) {
+    // The policy of the replica references the distribution, which is created after the replica
+    super(scope, id, {
+      env: { account: props.env.account, region: props.failover?.region },
+      crossRegionReferences: true,
+      description: props.description,
+      tags: props.tags,
+    });
+
+    const bucket = Bucket.fromBucketName(this, 'ReplicaBucket', accessProps.replicaBucketName);
+    this.bucketPolicy = new BucketPolicy(this, 'ReplicaBucketPolicy', {
+      bucket,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.bucketPolicy.document.addStatements(
+      // Enforce SSL, like the assets bucket
+      new PolicyStatement({
+        effect: Effect.DENY,
+        actions: ['s3:*'],
+        principals: [new AnyPrincipal()],
+        resources: [bucket.bucketArn, `${bucket.bucketArn}/*`],
+        conditions: {
+          Bool: { 'aws:SecureTransport': 'false' },
+        },
+      }),
+      // Grant the distribution of the app access to the replica, listing it to respond with 404 for missing objects
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:GetObject', 's3:ListBucket'],
+        principals: [new ServicePrincipal('cloudfront.amazonaws.com')],
+        resources: [bucket.bucketArn, `${bucket.bucketArn}/*`],
+        conditions: {
+          StringEquals: {
+            'AWS:SourceArn': accessProps.distribution.distributionArn,
+          },
+        },
+      }),
+      // Hide the replicated deployment manifests, like the assets bucket
+      new PolicyStatement({
+        effect: Effect.DENY,
+        actions: ['s3:GetObject'],
+        principals: [new ServicePrincipal('cloudfront.amazonaws.com')],
+        resources: [`${bucket.bucketArn}/${DEPLOYMENT_MANIFEST_PREFIX}*`],
+      }),
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { Stack } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { NuxtProps } from './NuxtProps';
+import { WafConstruct } from '../lib'
+
+export class WafStack extends Stack {
+  public readonly waf: WafConstruct;
+
+  constructor(scope: Construct, id: string, props: NuxtProps) {
+    // CloudFront only accepts web ACLs created in us-east-1
+    super(scope, id, {
+      env: { account: props.env.account, region: 'us-east-1' },
+      crossRegionReferences: true,
+      description: props.description,
+      tags: props.tags,
+    });
+
+    this.waf = new WafConstruct(this, 'Waf', props);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listPrerenderedPages, createPrerenderFunctionCode, canInlinePages } from '../lib/prerender';
+
+// Runs the handler of the function code with a mock of the cloudfront module
+async function handleRequest(code: string, request: { uri: string; method: string }, kvsEntries: Record<string, string> = {}) {
+  const selectedOrigins: string[] = [];
+  const cf = {
+    selectRequestOriginById: (originId: string) => selectedOrigins.push(originId),
+    kvs: () => ({
+      get: async (key: string) => {
+        if (!(key in kvsEntries)) throw new Error('Key not found');
+        return kvsEntries[key];
+      },
+    }),
+  };
+  const handler = new Function('cf', `${code.replace("import cf from 'cloudfront';", '')}\nreturn handler;`)(cf);
+  const result = await handler({ request: { ...request } });
+  return { request: result, selectedOrigins };
+}
+
+function writeFiles(files: string[]): string {
+  const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prerender-test-'));
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.join(publicDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(publicDir, file), '');
+  }
+  return publicDir;
+}
+
+describe('listPrerenderedPages', () => {
+  it('maps the routes with and without trailing slash to the HTML files', () => {
+    const publicDir = writeFiles(['index.html', 'about/index.html', 'docs/guide.html', 'favicon.ico']);
+
+    assert.deepEqual(listPrerenderedPages(publicDir), {
+      '/': '/index.html',
+      '/about': '/about/index.html',
+      '/about/': '/about/index.html',
+      '/docs/guide': '/docs/guide.html',
+    });
+  });
+
+  it('skips the SPA fallback pages and the build assets', () => {
+    const publicDir = writeFiles(['200.html', '404.html', '_nuxt/builds/meta.html']);
+
+    assert.deepEqual(listPrerenderedPages(publicDir), {});
+  });
+
+  it('returns no pages without the public output directory', () => {
+    assert.deepEqual(listPrerenderedPages(path.join(os.tmpdir(), 'prerender-test-missing')), {});
+  });
+});
+
+describe('createPrerenderFunctionCode', () => {
+  const pages = { '/about': '/about/index.html', '/about/': '/about/index.html' };
+
+  it('routes the GET requests of the inlined pages to the S3 origin', async () => {
+    const { request, selectedOrigins } = await handleRequest(createPrerenderFunctionCode('s3origin', pages), { uri: '/about/', method: 'GET' });
+
+    assert.equal(request.uri, '/about/index.html');
+    assert.deepEqual(selectedOrigins, ['s3origin']);
+  });
+
+  it('passes the form posts and the other routes to the server', async () => {
+    const code = createPrerenderFunctionCode('s3origin', pages);
+
+    const post = await handleRequest(code, { uri: '/about', method: 'POST' });
+    assert.equal(post.request.uri, '/about');
+    assert.deepEqual(post.selectedOrigins, []);
+
+    const other = await handleRequest(code, { uri: '/contact', method: 'GET' });
+    assert.equal(other.request.uri, '/contact');
+    assert.deepEqual(other.selectedOrigins, []);
+  });
+
+  it('reads the pages from the KeyValueStore without a page table', async () => {
+    const code = createPrerenderFunctionCode('s3origin');
+
+    const page = await handleRequest(code, { uri: '/about', method: 'HEAD' }, pages);
+    assert.equal(page.request.uri, '/about/index.html');
+
+    const missing = await handleRequest(code, { uri: '/contact', method: 'GET' }, pages);
+    assert.equal(missing.request.uri, '/contact');
+  });
+});
+
+describe('canInlinePages', () => {
+  it('keeps the page table and the other code under the size limit', () => {
+    assert.equal(canInlinePages(pages(10)), true);
+    assert.equal(canInlinePages(pages(10), 8 * 1024), false);
+    assert.equal(canInlinePages(pages(1000)), false);
+  });
+
+  function pages(count: number): Record<string, string> {
+    return Object.fromEntries(Array.from({ length: count }, (_, index) => [`/page-${index}`, `/page-${index}/index.html`]));
+  }
+});
@@ -0,0 +1,195 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  sortBySpecificity,
+  isRootRoute,
+  toPathPatterns,
+  toRouteRegExp,
+  matchesPathPattern,
+  isPrerenderedByRule,
+  createRouteRedirectsStep,
+  readRouteManifest,
+  readServerRouteRules,
+  ROUTE_MANIFEST_FILE,
+  type NitroRouteRule,
+} from '../lib/route-rules';
+
+// Runs the redirect step of the viewer request function with a CloudFront Functions event
+function applyRouteRedirects(routeRules: Record<string, NitroRouteRule>, uri: string, querystring: Record<string, { value: string }> = {}) {
+  const step = createRouteRedirectsStep(routeRules);
+  const stepFunction = new Function(`${step.code}\nreturn ${step.name};`)();
+  return stepFunction({ request: { uri, querystring, headers: {} } });
+}
+
+function createOutputDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'route-rules-test-'));
+}
+
+describe('sortBySpecificity', () => {
+  it('sorts the routes by the length of their literal prefix', () => {
+    assert.deepEqual(
+      sortBySpecificity(['/**', '/blog/**', '/blog/drafts/latest', '/blog/drafts/**']),
+      ['/blog/drafts/latest', '/blog/drafts/**', '/blog/**', '/**'],
+    );
+  });
+
+  it('sorts a route before the wildcard routes sharing its path', () => {
+    assert.deepEqual(sortBySpecificity(['/blog/*', '/blog/drafts']), ['/blog/drafts', '/blog/*']);
+    assert.deepEqual(sortBySpecificity(['/**', '/about']), ['/about', '/**']);
+  });
+
+  it('does not change the input', () => {
+    const routes = ['/**', '/about'];
+    sortBySpecificity(routes);
+    assert.deepEqual(routes, ['/**', '/about']);
+  });
+});
+
+describe('isRootRoute', () => {
+  it('matches the routes of all paths', () => {
+    assert.equal(isRootRoute('/**'), true);
+    assert.equal(isRootRoute('/*'), true);
+    assert.equal(isRootRoute('/blog/**'), false);
+  });
+});
+
+describe('toPathPatterns', () => {
+  it('adds the path itself to a route ending with /**', () => {
+    assert.deepEqual(toPathPatterns('/blog/**'), ['/blog', '/blog/*']);
+  });
+
+  it('keeps other routes as a single pattern', () => {
+    assert.deepEqual(toPathPatterns('/about'), ['/about']);
+    assert.deepEqual(toPathPatterns('/blog/*/edit'), ['/blog/*/edit']);
+  });
+});
+
+describe('toRouteRegExp', () => {
+  const matches = (route: string, routePath: string) => new RegExp(toRouteRegExp(route)).test(routePath);
+
+  it('matches the path and all subpaths with /**', () => {
+    assert.equal(matches('/blog/**', '/blog'), true);
+    assert.equal(matches('/blog/**', '/blog/a/b'), true);
+    assert.equal(matches('/blog/**', '/blogs'), false);
+  });
+
+  it('matches a single segment with *', () => {
+    assert.equal(matches('/blog/*', '/blog/a'), true);
+    assert.equal(matches('/blog/*', '/blog/a/b'), false);
+  });
+
+  it('escapes the special characters of the route', () => {
+    assert.equal(matches('/feed.xml', '/feed.xml'), true);
+    assert.equal(matches('/feed.xml', '/feedxxml'), false);
+  });
+});
+
+describe('matchesPathPattern', () => {
+  it('matches * across path segments like CloudFront', () => {
+    assert.equal(matchesPathPattern('/api/*', '/api/public/*'), true);
+    assert.equal(matchesPathPattern('*.*', '/favicon.ico'), true);
+    assert.equal(matchesPathPattern('/_nuxt/*', '/blog'), false);
+  });
+});
+
+describe('isPrerenderedByRule', () => {
+  it('follows the most specific rule with a prerender setting', () => {
+    const routeRules = { '/docs/**': { prerender: true }, '/docs/api/**': { prerender: false }, '/docs/guide': { swr: true } };
+    assert.equal(isPrerenderedByRule(routeRules, '/docs/guide'), true);
+    assert.equal(isPrerenderedByRule(routeRules, '/docs/api/ref'), false);
+    assert.equal(isPrerenderedByRule(routeRules, '/blog'), false);
+  });
+});
+
+describe('createRouteRedirectsStep', () => {
+  it('strips the base of a target ending with /**', () => {
+    const routeRules = { '/old/**': { redirect: { to: '/new/**', statusCode: 301, _redirectStripBase: '/old' } } };
+    assert.deepEqual(applyRouteRedirects(routeRules, '/old/a/b'), {
+      statusCode: 301,
+      statusDescription: 'Redirect',
+      headers: { location: { value: '/new/a/b' } },
+    });
+    assert.equal(applyRouteRedirects(routeRules, '/old').headers.location.value, '/new/');
+  });
+
+  it('keeps the query string and defaults to 307', () => {
+    const response = applyRouteRedirects({ '/about': { redirect: { to: 'https://example.com/about?ref=app' } } }, '/about', { page: { value: '2' } });
+    assert.equal(response.statusCode, 307);
+    assert.equal(response.headers.location.value, 'https://example.com/about?ref=app&page=2');
+  });
+
+  it('applies the most specific redirect first', () => {
+    const routeRules = {
+      '/blog/**': { redirect: { to: '/news/**', _redirectStripBase: '/blog' } },
+      '/blog/archive/**': { redirect: { to: '/archive' } },
+    };
+    assert.equal(applyRouteRedirects(routeRules, '/blog/archive/2020').headers.location.value, '/archive');
+    assert.equal(applyRouteRedirects(routeRules, '/blog/post').headers.location.value, '/news/post');
+  });
+
+  it('passes other requests through', () => {
+    assert.equal(applyRouteRedirects({ '/old/**': { redirect: { to: '/new' } } }, '/olden'), undefined);
+  });
+});
+
+describe('readRouteManifest', () => {
+  it('reads the route rules and the prerendered routes of the manifest', () => {
+    const outputDir = createOutputDir();
+    fs.writeFileSync(path.join(outputDir, ROUTE_MANIFEST_FILE), JSON.stringify({
+      routeRules: { '/blog/**': { cache: { swr: true, maxAge: 60 }, headers: { 'x-version': 2 }, ssr: false } },
+      prerenderedRoutes: [{ route: '/docs', fileName: '/docs/index.html' }],
+    }));
+
+    assert.deepEqual(readRouteManifest(outputDir, path.join(outputDir, 'server'), path.join(outputDir, 'public')), {
+      routeRules: { '/blog/**': { cache: { swr: true, maxAge: 60, staleMaxAge: undefined }, headers: { 'x-version': '2' } } },
+      prerenderedRoutes: [{ route: '/docs', fileName: '/docs/index.html' }],
+    });
+  });
+
+  it('rejects invalid route rules', () => {
+    const outputDir = createOutputDir();
+    fs.writeFileSync(path.join(outputDir, ROUTE_MANIFEST_FILE), JSON.stringify({
+      routeRules: { '/old/**': { redirect: '/new' } },
+      prerenderedRoutes: [],
+    }));
+
+    assert.throws(() => readRouteManifest(outputDir, outputDir, outputDir), /Invalid redirect of the route rule \/old\/\*\*/);
+  });
+
+  it('falls back to the server build and the public output directory without the manifest', () => {
+    const outputDir = createOutputDir();
+    fs.mkdirSync(path.join(outputDir, 'server', 'chunks', 'nitro'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'server', 'chunks', 'nitro', 'nitro.mjs'), `const _inlineRuntimeConfig = ${JSON.stringify({
+      app: { baseURL: '/' },
+      nitro: { routeRules: { '/blog/**': { swr: 600 } } },
+      public: { message: 'a } in a "string"' },
+    }, null, 2)};\n`);
+    fs.mkdirSync(path.join(outputDir, 'public', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'public', 'docs', 'index.html'), '');
+
+    assert.deepEqual(readRouteManifest(outputDir, path.join(outputDir, 'server'), path.join(outputDir, 'public')), {
+      routeRules: { '/blog/**': { swr: 600 } },
+      prerenderedRoutes: [{ route: '/docs', fileName: '/docs/index.html' }],
+    });
+  });
+});
+
+describe('readServerRouteRules', () => {
+  it('ignores the traced dependencies', () => {
+    const serverDir = createOutputDir();
+    fs.mkdirSync(path.join(serverDir, 'node_modules', 'dep'), { recursive: true });
+    fs.writeFileSync(path.join(serverDir, 'node_modules', 'dep', 'index.mjs'), 'const _inlineRuntimeConfig = { "nitro": {} };');
+
+    assert.throws(() => readServerRouteRules(serverDir), /Could not find the runtime config/);
+  });
+
+  it('rejects a minified runtime config', () => {
+    const serverDir = createOutputDir();
+    fs.writeFileSync(path.join(serverDir, 'index.mjs'), 'const _inlineRuntimeConfig={app:{},nitro:{}};');
+
+    assert.throws(() => readServerRouteRules(serverDir), /Could not read the runtime config/);
+  });
+});